@@ -1,28 +1,32 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { User, UserRole, TrackingRow, ERPRawRow, UserRoleRow } from './types';
+import * as XLSX from 'xlsx';
+import { User, UserRole, TrackingRow, ERPRawRow, UserAccount, RoleDefinition, TrackingFacets, TrackingPage, TrackingQuery, TrackingStatus, HistoryRow, ImportDiff, ImportDiffLine, WODetailInput, ImportBatch, ImportKind, ERPUploadComparison, ImportTarget, ImportFieldMapping, ImportProfile, ImportTransform, PendingMutation, PurchaserRuleRow, QueuedField, DashboardStats, ShortageGroupStat, ReplyImportLine, ReplyImportResult, RowBatchChanges } from './types';
 import { sheetService } from './services/sheetService.ts'; // <-- S 改為小寫，加回 .ts
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, stageVersion } from './services/trackingQuery.ts';
+import { IMPORT_FIELDS, IMPORT_TRANSFORM_LABELS, MappingSuggestion, describeMapping, suggestMapping } from './services/importMapping.ts';
+import { RejectedRow, validateReplyRows, validateShortageRows, validateWODetailRows } from './services/importValidation.ts';
+import { ParsedWorkbook, SheetData, guessSheet, readImportFile } from './services/importParser.ts';
+import { AuthError, ConflictError } from './services/serviceErrors.ts';
+import { PERMISSIONS, PERMISSION_LABELS, can } from './services/permissions.ts';
+import { hasUserColumns, parseUserRows } from './services/userImport.ts';
+import { SUPPLIER_REPORT_COLUMNS, SupplierShortages, buildSupplierReport, groupOpenShortages, isSupplierReport, parseSupplierReport, supplierReportFileName } from './services/supplierReport.ts';
+import { TIMELINE_STAGES, TimelineLane, TimelineStage, addDays, buildTimeline, daysBetween } from './services/timeline.ts';
+import { excelSerialToIsoDate, localIsoDate } from './services/statusEngine.ts';
 // Icons
 import { 
   Search, FileSpreadsheet, LogOut, User as UserIcon, 
   UploadCloud, AlertCircle, CheckCircle, RefreshCw, ChevronDown, ChevronRight, Layers, 
   CheckSquare, Square, LogIn, Menu, Trash2, Box, Factory,
   Download, Archive, RotateCcw, PackageCheck, PanelLeftClose, PanelLeftOpen,
-  Calendar, Briefcase, Shield, Users, ArrowRightCircle, Check, X, Maximize2
+  Calendar, Briefcase, Shield, Users, ArrowRightCircle, Check, X, Maximize2, KeyRound, History, ArrowLeftRight, CloudOff, CloudUpload,
+  ClipboardList, UserCheck, GanttChart, BarChart3
 } from 'lucide-react';
 
-declare global {
-  interface Window {
-    XLSX: any;
-  }
-}
-
 // --- UTILS ---
 const formatDateForInput = (dateStr: string | undefined): string => {
   if (!dateStr) return '';
-  if (!isNaN(Number(dateStr)) && Number(dateStr) > 20000) {
-      const date = new Date((Number(dateStr) - 25569) * 86400 * 1000);
-      return date.toISOString().split('T')[0];
-  }
+  const serial = excelSerialToIsoDate(dateStr);
+  if (serial) return serial;
   const cleanStr = dateStr.trim();
   if (cleanStr.includes('/')) {
      const parts = cleanStr.split('/');
@@ -33,6 +37,12 @@ const formatDateForInput = (dateStr: string | undefined): string => {
   return '';
 };
 
+// ISO timestamp as the local YYYY-MM-DDTHH:mm a datetime-local input expects
+const formatDateTimeForInput = (iso: string): string => {
+  const d = new Date(iso);
+  return `${localIsoDate(d)}T${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
 const CompactDateInput = ({ value, onChange }: { value: string, onChange: (val: string) => void }) => {
   const [isEditing, setIsEditing] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -82,10 +92,29 @@ const CompactDateInput = ({ value, onChange }: { value: string, onChange: (val:
   );
 };
 
+const HISTORY_FIELD_LABELS: Record<string, string> = {
+  purchaserReplyDate: '採購回覆',
+  purchaserRemark: '備註',
+  oqcDate: '客驗/出貨日',
+  isMaterialReady: '齊料確認',
+  isArchived: '移至歷史完工',
+  purchaserUsername: '負責採購',
+  'shortages:replace': '欠料表匯入 (完整取代)',
+  'shortages:merge': '欠料表匯入 (更新數量)',
+  woDetails: '製令明細匯入',
+};
+
+const formatHistoryValue = (value: string) => {
+  if (value === 'true') return '是';
+  if (value === 'false') return '否';
+  return value || '(空白)';
+};
+
 // --- COMPONENTS ---
 
-const LoginScreen = ({ onLogin }: { onLogin: (username: string) => Promise<string | null> }) => {
+const LoginScreen = ({ onLogin }: { onLogin: (username: string, password: string) => Promise<string | null> }) => {
   const [username, setUsername] = useState(''); // Clear default username
+  const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
@@ -93,7 +122,7 @@ const LoginScreen = ({ onLogin }: { onLogin: (username: string) => Promise<strin
     e.preventDefault();
     setLoading(true);
     setError('');
-    const err = await onLogin(username);
+    const err = await onLogin(username, password);
     if (err) setError(err);
     setLoading(false);
   };
@@ -118,7 +147,11 @@ const LoginScreen = ({ onLogin }: { onLogin: (username: string) => Promise<strin
         <form onSubmit={handleSubmit} className="space-y-6">
           <div>
             <label className="block text-base font-bold text-slate-700 mb-2">使用者帳號</label>
-            <input type="text" required value={username} onChange={(e) => setUsername(e.target.value)} className="w-full border border-slate-300 rounded-xl px-5 py-3.5 text-lg focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none transition-all" placeholder="輸入帳號" />
+            <input type="text" required value={username} onChange={(e) => setUsername(e.target.value)} className="w-full border border-slate-300 rounded-xl px-5 py-3.5 text-lg focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none transition-all" placeholder="輸入帳號" autoComplete="username" />
+          </div>
+          <div>
+            <label className="block text-base font-bold text-slate-700 mb-2">密碼</label>
+            <input type="password" required value={password} onChange={(e) => setPassword(e.target.value)} className="w-full border border-slate-300 rounded-xl px-5 py-3.5 text-lg focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none transition-all" placeholder="輸入密碼" autoComplete="current-password" />
           </div>
           {error && (<div className="bg-red-50 text-red-600 text-sm p-4 rounded-xl flex items-center gap-3 border border-red-100"><AlertCircle size={20} />{error}</div>)}
           <button type="submit" disabled={loading} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold text-lg py-4 rounded-xl transition-all shadow-md flex items-center justify-center gap-2 hover:shadow-lg active:scale-[0.98]">
@@ -135,25 +168,28 @@ const LoginScreen = ({ onLogin }: { onLogin: (username: string) => Promise<strin
   );
 };
 
-const Header = ({ user, onLogout, onToggleMenu }: { user: User, onLogout: () => void, onToggleMenu: () => void }) => {
-  const getRoleName = (role: UserRole) => {
-    switch(role) {
-      case UserRole.PURCHASER: return '採購人員';
-      case UserRole.SCHEDULER: return '排程人員';
-      case UserRole.BUSINESS: return '業管 Team';
-      case UserRole.ADMIN: return '系統管理員';
-      default: return role;
-    }
-  };
-  const getRoleColor = (role: UserRole) => {
-     switch(role) {
-      case UserRole.PURCHASER: return 'bg-green-100 text-green-800 border-green-200';
-      case UserRole.SCHEDULER: return 'bg-blue-100 text-blue-800 border-blue-200';
-      case UserRole.BUSINESS: return 'bg-orange-100 text-orange-800 border-orange-200';
-      case UserRole.ADMIN: return 'bg-purple-100 text-purple-800 border-purple-200';
-      default: return 'bg-slate-100';
-    }
-  };
+// Built-in roles get a Chinese label and colour; roles added by admins show their own name
+const getRoleName = (role: string) => {
+  switch(role) {
+    case UserRole.PURCHASER: return '採購人員';
+    case UserRole.SCHEDULER: return '排程人員';
+    case UserRole.BUSINESS: return '業管 Team';
+    case UserRole.ADMIN: return '系統管理員';
+    default: return role;
+  }
+};
+const getRoleColor = (role: string) => {
+   switch(role) {
+    case UserRole.PURCHASER: return 'bg-green-100 text-green-800 border-green-200';
+    case UserRole.SCHEDULER: return 'bg-blue-100 text-blue-800 border-blue-200';
+    case UserRole.BUSINESS: return 'bg-orange-100 text-orange-800 border-orange-200';
+    case UserRole.ADMIN: return 'bg-purple-100 text-purple-800 border-purple-200';
+    default: return 'bg-slate-100 text-slate-700 border-slate-200';
+  }
+};
+
+const Header = ({ user, onLogout, onToggleMenu, pending, isOnline, onSync, onResolve }: { user: User, onLogout: () => void, onToggleMenu: () => void, pending: PendingMutation[], isOnline: boolean, onSync: () => void, onResolve: (id: string, keepMine: boolean) => void }) => {
+  const [showPending, setShowPending] = useState(false);
   return (
     <header className="bg-white border-b border-slate-200 sticky top-0 z-50 shadow-sm">
       <div className="w-full px-6 h-20 flex items-center justify-between">
@@ -163,7 +199,50 @@ const Header = ({ user, onLogout, onToggleMenu }: { user: User, onLogout: () =>
           <span className="font-extrabold text-2xl text-slate-800 tracking-tight">CloudSheet ERP</span>
         </div>
         <div className="flex items-center gap-4">
-          <div className={`px-4 py-2 rounded-full text-sm font-bold border shadow-sm ${getRoleColor(user.role)}`}>{getRoleName(user.role)}</div>
+          {(!isOnline || pending.length > 0) && (
+            <div className="relative">
+              <button onClick={() => setShowPending(!showPending)} className={`px-4 py-2 rounded-full text-sm font-bold border shadow-sm flex items-center gap-2 ${isOnline ? 'bg-yellow-50 text-yellow-800 border-yellow-200' : 'bg-slate-100 text-slate-600 border-slate-300'}`} title="尚未同步的修改">
+                {isOnline ? <CloudUpload size={18}/> : <CloudOff size={18}/>}
+                {isOnline ? '' : '離線 · '}待同步 {pending.length}
+              </button>
+              {showPending && (
+                <div className="absolute right-0 mt-2 w-96 bg-white border border-slate-200 rounded-2xl shadow-xl p-4 z-50">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="font-bold text-slate-700">尚未同步的修改</span>
+                    <button onClick={onSync} disabled={!isOnline || pending.length === 0} className="text-sm font-bold text-blue-600 hover:text-blue-800 disabled:text-slate-300 flex items-center gap-1"><RefreshCw size={14}/> 立即同步</button>
+                  </div>
+                  {pending.length === 0 ? (
+                    <p className="text-sm text-slate-400">目前離線，之後的修改會先存在這台裝置</p>
+                  ) : (
+                    <ul className="divide-y divide-slate-100 max-h-80 overflow-y-auto custom-scrollbar text-sm">
+                      {pending.map(m => (
+                        <li key={m.id} className="py-2">
+                          <div className="font-bold text-slate-700">{HISTORY_FIELD_LABELS[m.field] || m.field} <span className="font-mono text-blue-800">{m.workOrder}{m.stage ? ` / ${m.stage}` : ''}</span></div>
+                          <div className="text-slate-500 break-all">{formatHistoryValue(String(m.value))} · {new Date(m.queuedAt).toLocaleTimeString()}</div>
+                          {m.failedReason !== undefined && (
+                            <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded-lg">
+                              <div className="text-red-700 break-all">無法儲存：{m.failedReason}</div>
+                              <button onClick={() => onResolve(m.id, false)} className="mt-2 px-3 py-1 bg-white border border-slate-300 text-slate-700 rounded-lg font-bold hover:bg-slate-50">移除</button>
+                            </div>
+                          )}
+                          {m.conflictVersion !== undefined && (
+                            <div className="mt-2 p-2 bg-orange-50 border border-orange-200 rounded-lg">
+                              <div className="text-orange-700 break-all">已被其他人改為：{formatHistoryValue(String(m.conflictValue ?? ''))}</div>
+                              <div className="flex gap-2 mt-2">
+                                <button onClick={() => onResolve(m.id, true)} className="px-3 py-1 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700">用我的</button>
+                                <button onClick={() => onResolve(m.id, false)} className="px-3 py-1 bg-white border border-slate-300 text-slate-700 rounded-lg font-bold hover:bg-slate-50">用伺服器的</button>
+                              </div>
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {user.roles.map(role => <div key={role} className={`px-4 py-2 rounded-full text-sm font-bold border shadow-sm ${getRoleColor(role)}`}>{getRoleName(role)}</div>)}
           <div className="hidden sm:flex flex-col items-end"><span className="text-lg font-bold text-slate-700">{user.username}</span></div>
           <button onClick={onLogout} className="p-3 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors" title="登出"><LogOut size={24} /></button>
         </div>
@@ -174,10 +253,103 @@ const Header = ({ user, onLogout, onToggleMenu }: { user: User, onLogout: () =>
 
 // --- MODAL & TRACKING VIEW ---
 
+// Fields whose changes by other users are highlighted when they arrive
+const LIVE_FIELDS: (keyof TrackingRow)[] = ['purchaserReplyDate', 'purchaserRemark', 'oqcDate', 'isMaterialReady', 'status', 'shortageQty', 'purchaserUsername'];
+const LIVE_FLASH_MS = 4000;
+const LIVE_FLASH_CLASS = 'bg-yellow-100';
+
+// Open shortages of the current filter, one downloadable workbook per supplier;
+// the filled-in files come back through the import button at the bottom
+const SupplierReportDialog = ({ loadRows, onClose, onImported }: { loadRows: () => Promise<TrackingRow[]>, onClose: () => void, onImported: () => void }) => {
+  const [groups, setGroups] = useState<SupplierShortages[] | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const load = () => {
+    setLoadError('');
+    loadRows().then(rows => setGroups(groupOpenShortages(rows)), (err: any) => setLoadError(err?.message || '無法載入欠料資料'));
+  };
+  useEffect(load, []);
+
+  const download = (group: SupplierShortages) => XLSX.writeFile(buildSupplierReport(group), supplierReportFileName(group.supplier));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const list = e.target.files;
+    const files = list ? Array.from({ length: list.length }, (_, i) => list[i]) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsImporting(true);
+    const report: string[] = [];
+    try {
+      for (const file of files) {
+        const sheet = (await readImportFile(file)).sheets.find(isSupplierReport);
+        if (!sheet) { report.push(`${file.name}: 不是供應商回覆報表 (找不到「${SUPPLIER_REPORT_COLUMNS.rowId}」欄)`); continue; }
+        const parsed = parseSupplierReport(sheet);
+        const result = await sheetService.importReplies(parsed.lines, { asOf: parsed.generatedAt || undefined });
+        report.push(`${file.name}: 更新 ${result.updated} 項，未變更 ${result.unchanged} 項`);
+        [...parsed.rejected, ...result.unmatched, ...result.skipped]
+          .sort((a, b) => a.rowNumber - b.rowNumber)
+          .forEach(r => report.push(`  第 ${r.rowNumber} 列: ${r.reason}`));
+      }
+    } catch (err: any) {
+      report.push(err?.message || '匯入失敗');
+    }
+    setIsImporting(false);
+    alert(report.join('\n'));
+    onImported();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4">
+      <div className="bg-white p-8 rounded-2xl max-w-2xl w-full shadow-2xl animate-in fade-in zoom-in duration-200 flex flex-col max-h-[85vh]">
+        <h3 className="text-2xl font-bold mb-2 flex items-center gap-3"><FileSpreadsheet className="text-green-600"/> 供應商欠料報表</h3>
+        <p className="text-slate-500 mb-6">依目前篩選條件中尚未齊料的欠料，每家供應商一個檔案。供應商填好「{SUPPLIER_REPORT_COLUMNS.replyDate}」與「{SUPPLIER_REPORT_COLUMNS.remark}」後，可直接匯入回覆。</p>
+        {loadError ? (
+          <div className="flex flex-col items-center gap-4 py-10">
+            <p className="text-red-600 font-bold text-center">{loadError}</p>
+            <button onClick={load} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-xl font-bold hover:bg-slate-50 flex items-center gap-2"><RefreshCw size={18}/> 重試</button>
+          </div>
+        ) : groups === null ? (
+          <div className="flex justify-center py-10"><RefreshCw className="animate-spin text-slate-400" size={28}/></div>
+        ) : groups.length === 0 ? (
+          <p className="text-slate-400 font-bold text-center py-10">沒有未齊料的欠料</p>
+        ) : (
+          <div className="overflow-auto custom-scrollbar border border-slate-200 rounded-xl divide-y divide-slate-100 min-h-0">
+            {groups.map(g => (
+              <div key={g.supplier} className="flex items-center justify-between gap-4 p-4">
+                <div>
+                  <div className="font-bold text-slate-800">{g.supplier}</div>
+                  <div className="text-sm text-slate-500">{g.rows.length} 項欠料 · {supplierReportFileName(g.supplier)}</div>
+                </div>
+                <button onClick={() => download(g)} className="px-4 py-2 bg-green-50 hover:bg-green-100 text-green-700 border border-green-200 rounded-xl font-bold flex items-center gap-2 shrink-0"><Download size={18}/> 下載</button>
+              </div>
+            ))}
+          </div>
+        )}
+        <input ref={importInput} type="file" accept=".xlsx,.xls,.csv" multiple className="hidden" onChange={handleImport}/>
+        <div className="flex flex-wrap gap-4 mt-8">
+          <button onClick={onClose} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-100 rounded-xl transition-colors">關閉</button>
+          <button onClick={() => importInput.current?.click()} disabled={isImporting} className="flex-1 py-3 bg-white border-2 border-slate-200 hover:border-blue-400 hover:text-blue-600 text-slate-600 font-bold rounded-xl transition-colors flex items-center justify-center gap-2">
+            {isImporting ? <RefreshCw size={18} className="animate-spin"/> : <UploadCloud size={18}/>} 匯入回覆檔
+          </button>
+          <button onClick={() => groups?.forEach(download)} disabled={!groups || groups.length === 0} className="flex-1 py-3 bg-green-600 text-white font-bold rounded-xl shadow-lg hover:bg-green-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50">
+            <Download size={18}/> 全部下載 ({groups?.length || 0})
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const TrackingView = ({ user }: { user: User }) => {
-  const isBusiness = user.role === UserRole.BUSINESS;
-  const isScheduler = user.role === UserRole.SCHEDULER || user.role === UserRole.ADMIN;
-  const isPurchaser = user.role === UserRole.PURCHASER || user.role === UserRole.ADMIN;
+  // Read-only accounts (e.g. Business) get the simplified view without filters
+  const isViewer = (user.permissions || []).length === 0;
+  const canEditReply = can(user, 'editReplyDate');
+  const canEditOqc = can(user, 'editOqcDate');
+  const canToggleReady = can(user, 'toggleReady');
+  const canArchive = can(user, 'archive');
+  const canAssign = can(user, 'assignPurchaser');
 
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('All');
@@ -187,8 +359,24 @@ const TrackingView = ({ user }: { user: User }) => {
   const [viewMode, setViewMode] = useState<'active' | 'archived'>('active');
 
   const [data, setData] = useState<TrackingRow[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [totalRows, setTotalRows] = useState(0);
+  const [facets, setFacets] = useState<TrackingFacets>({ vendors: [], suppliers: [], models: [], oqcMonths: [] });
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<{ message: string; retry: () => void } | null>(null);
+  const requestSeq = useRef(0);
+  // Rows as last returned by the service, i.e. before local typing; edits are checked against these
+  const serverRows = useRef(new Map<string, TrackingRow>());
+  // Someone else saved the same field first; the user picks which value stays
+  const [conflict, setConflict] = useState<{ label: string, target: string, mine: string | boolean, theirs: string | boolean, updatedAt: string, keepMine: () => Promise<unknown> } | null>(null);
   // MODAL STATE: Replacing inline expansion
   const [activeModal, setActiveModal] = useState<{model: string, stage: string} | null>(null);
+  // Change history side panel of the modal; null = closed
+  const [history, setHistory] = useState<HistoryRow[] | null>(null);
+  const [showSupplierReport, setShowSupplierReport] = useState(false);
+  // Modal rows ticked for the apply-to-selected actions, and the values those actions apply
+  const [selectedRows, setSelectedRows] = useState<string[]>([]);
+  const [bulkValues, setBulkValues] = useState({ replyDate: '', remark: '', purchaser: '' });
 
   // COLUMN WIDTH STATE (Persisted for Modal)
   const [colWidths, setColWidths] = useState({
@@ -196,9 +384,19 @@ const TrackingView = ({ user }: { user: User }) => {
     qty: 100,
     supplier: 200,
     reply: 140,
-    remark: 250
+    remark: 250,
+    owner: 160
   });
 
+  // Accounts a line can be assigned to (schedulers / admins only)
+  const [purchasers, setPurchasers] = useState<string[]>([]);
+  useEffect(() => {
+    if (!canAssign) return;
+    sheetService.getUsers()
+      .then(list => setPurchasers(list.filter(u => can(u, 'editReplyDate')).map(u => u.username)))
+      .catch((err: any) => alert(`無法載入採購名單，暫時無法指派：${err?.message || ''}`));
+  }, []);
+
   const handleResizeStart = (e: React.MouseEvent, colKey: keyof typeof colWidths) => {
     e.preventDefault();
     const startX = e.pageX;
@@ -218,45 +416,276 @@ const TrackingView = ({ user }: { user: User }) => {
     document.body.style.cursor = 'col-resize';
   };
 
-  const fetchData = async () => {
-    const results = await sheetService.searchTracking('');
-    setData(results);
+  const buildQuery = (): TrackingQuery => ({
+    filter: {
+      text: searchTerm || undefined,
+      status: statusFilter !== 'All' ? [statusFilter as TrackingStatus] : undefined,
+      vendor: vendorFilter !== 'All' ? vendorFilter : undefined,
+      supplier: supplierFilter !== 'All' ? supplierFilter : undefined,
+      oqcMonthFrom: monthFilter !== 'All' ? monthFilter : undefined,
+      oqcMonthTo: monthFilter !== 'All' ? monthFilter : undefined,
+      archived: viewMode === 'archived',
+    },
+    sort: { field: 'model', direction: 'asc' },
+  });
+
+  // Cells another user just changed, keyed `${rowId}:${field}`; highlighted for a few seconds
+  const [flashed, setFlashed] = useState<Record<string, boolean>>({});
+  const isFlashed = (rowId: string, field: keyof TrackingRow) => !!flashed[`${rowId}:${field}`];
+
+  const flashChanges = (previous: Map<string, TrackingRow>, rows: TrackingRow[]) => {
+    const keys: string[] = [];
+    rows.forEach(r => {
+      const old = previous.get(r.id);
+      if (old) LIVE_FIELDS.forEach(f => { if (old[f] !== r[f]) keys.push(`${r.id}:${f}`); });
+    });
+    if (keys.length === 0) return;
+    setFlashed(prev => ({ ...prev, ...Object.fromEntries(keys.map(k => [k, true])) }));
+    setTimeout(() => setFlashed(prev => {
+      const next = { ...prev };
+      keys.forEach(k => delete next[k]);
+      return next;
+    }), LIVE_FLASH_MS);
+  };
+
+  // Reloads from the first page; keepLoaded re-fetches as many rows as are already on screen.
+  // live: triggered by someone else's change, so highlight what moved and keep any remark still being typed.
+  const fetchData = async (keepLoaded = true, live = false) => {
+    const seq = ++requestSeq.current;
+    if (!live) setIsLoading(true);
+    let page: TrackingPage, nextFacets: TrackingFacets;
+    try {
+      [page, nextFacets] = await Promise.all([
+        sheetService.queryTracking({ ...buildQuery(), limit: keepLoaded ? Math.max(DEFAULT_PAGE_SIZE, data.length) : DEFAULT_PAGE_SIZE }),
+        sheetService.getTrackingFacets(viewMode === 'archived'),
+      ]);
+    } catch (err: any) {
+      if (seq !== requestSeq.current) return;
+      setLoadError({ message: err?.message || '無法載入排程資料', retry: () => fetchData(keepLoaded) });
+      setIsLoading(false);
+      return;
+    }
+    if (seq !== requestSeq.current) return; // A newer query superseded this one
+    setLoadError(null);
+    const previous = serverRows.current;
+    serverRows.current = new Map(page.rows.map(r => [r.id, r]));
+    if (live) {
+      flashChanges(previous, page.rows);
+      setData(prev => {
+        const typing = new Map(prev.filter(r => previous.has(r.id) && r.purchaserRemark !== previous.get(r.id)!.purchaserRemark).map(r => [r.id, r.purchaserRemark]));
+        return page.rows.map(r => typing.has(r.id) ? { ...r, purchaserRemark: typing.get(r.id)! } : r);
+      });
+    } else {
+      setData(page.rows);
+    }
+    setNextCursor(page.nextCursor);
+    setTotalRows(page.total);
+    setFacets(nextFacets);
+    setIsLoading(false);
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    const seq = ++requestSeq.current;
+    setIsLoading(true);
+    let page: TrackingPage;
+    try {
+      page = await sheetService.queryTracking({ ...buildQuery(), limit: DEFAULT_PAGE_SIZE, cursor: nextCursor });
+    } catch (err: any) {
+      if (seq !== requestSeq.current) return;
+      setLoadError({ message: err?.message || '無法載入更多資料', retry: loadMore });
+      setIsLoading(false);
+      return;
+    }
+    if (seq !== requestSeq.current) return;
+    setLoadError(null);
+    page.rows.forEach(r => serverRows.current.set(r.id, r));
+    setData(prev => [...prev, ...page.rows]);
+    setNextCursor(page.nextCursor);
+    setTotalRows(page.total);
+    setIsLoading(false);
   };
 
-  useEffect(() => { fetchData(); }, [viewMode]);
+  useEffect(() => {
+    // Debounce so typing in the search box doesn't fire a query per keystroke
+    const timer = setTimeout(() => fetchData(false), 300);
+    return () => clearTimeout(timer);
+  }, [viewMode, searchTerm, statusFilter, vendorFilter, supplierFilter, monthFilter]);
+
+  // Edits queued offline land later; reload once some of them have been sent (or turned out to fail)
+  const fetchDataRef = useRef(fetchData);
+  fetchDataRef.current = fetchData;
+  useEffect(() => {
+    const waiting = (pending: PendingMutation[]) => pending.filter(m => m.failedReason === undefined).length;
+    let last = waiting(sheetService.pending());
+    return sheetService.onPendingChange(pending => {
+      if (waiting(pending) < last) fetchDataRef.current();
+      last = waiting(pending);
+    });
+  }, []);
+
+  // Other tabs / users: refresh in place. Debounced because one edit can land as several writes.
+  const refreshHistoryRef = useRef<() => Promise<void>>(async () => {});
+  useEffect(() => {
+    let timer: number | undefined;
+    const unsubscribe = sheetService.subscribe(() => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(async () => {
+        await fetchDataRef.current(true, true);
+        await refreshHistoryRef.current();
+      }, 300);
+    });
+    return () => {
+      window.clearTimeout(timer);
+      unsubscribe();
+    };
+  }, []);
+
+  // Sends an edit along with the version it was based on. If the row moved on but this field still
+  // holds the value we started from, the edit is simply resent on the new version; otherwise ask the user.
+  // Other failures (no permission, signed out...) are shown here, since callers are input event handlers.
+  const saveChecked = async <F extends QueuedField>(field: F, target: string, base: TrackingRow | undefined, mine: TrackingRow[F], expectedVersion: number, send: (version: number) => Promise<boolean>) => {
+    try {
+      try {
+        await send(expectedVersion);
+      } catch (err) {
+        if (!(err instanceof ConflictError)) throw err;
+        const theirs = err.current[field];
+        if (theirs === mine) return;
+        if (base && theirs === base[field]) {
+          await send(err.currentVersion);
+          return;
+        }
+        setConflict({ label: HISTORY_FIELD_LABELS[field] || field, target, mine, theirs, updatedAt: err.current.updatedAt, keepMine: () => send(err.currentVersion) });
+      }
+    } catch (err: any) {
+      alert(err?.message || '儲存失敗');
+    }
+  };
 
   const updateRow = async (rowId: string, updates: Partial<TrackingRow>) => {
+    const base = serverRows.current.get(rowId);
+    const target = base ? `${base.workOrder} / ${base.partNumber}` : rowId;
+    const version = base?.version ?? 0;
     setData(prev => prev.map(r => r.id === rowId ? { ...r, ...updates } : r));
-    if ('purchaserReplyDate' in updates) await sheetService.updateDeliveryDate(rowId, updates.purchaserReplyDate as string);
-    if ('purchaserRemark' in updates) await sheetService.updatePurchaserRemark(rowId, updates.purchaserRemark as string);
+    if ('purchaserReplyDate' in updates) {
+      const val = updates.purchaserReplyDate as string;
+      await saveChecked('purchaserReplyDate', target, base, val, version, v => sheetService.updateDeliveryDate(rowId, val, v));
+    }
+    if ('purchaserRemark' in updates) {
+      const val = updates.purchaserRemark as string;
+      await saveChecked('purchaserRemark', target, base, val, version, v => sheetService.updatePurchaserRemark(rowId, val, v));
+    }
+    await fetchData();
+    await refreshHistory();
+  };
+
+  const reassignRow = async (rowId: string, username: string) => {
+    setData(prev => prev.map(r => r.id === rowId ? { ...r, purchaserUsername: username } : r));
+    try {
+      await sheetService.assignPurchaser([rowId], username);
+    } catch (err: any) {
+      alert(err?.message || '指派失敗');
+    }
     await fetchData();
+    await refreshHistory();
+  };
+
+  const stageBase = (workOrder: string, stage: string) => {
+    const rows: TrackingRow[] = [];
+    serverRows.current.forEach(r => { if (r.workOrder === workOrder && r.stage === stage) rows.push(r); });
+    return { base: rows[0], version: stageVersion(rows) };
   };
 
   const updateStageDate = async (workOrder: string, stage: string, field: 'oqcDate', val: string) => {
-    await sheetService.updateStageDate(workOrder, stage, field, val);
+    const { base, version } = stageBase(workOrder, stage);
+    await saveChecked(field, `${workOrder} / ${stage}`, base, val, version, v => sheetService.updateStageDate(workOrder, stage, field, val, v));
     await fetchData();
   };
 
   const toggleStageReady = async (workOrder: string, stage: string, currentStatus: boolean) => {
     const newStatus = !currentStatus;
-    await sheetService.updateStageReady(workOrder, stage, newStatus);
+    const { base, version } = stageBase(workOrder, stage);
+    await saveChecked('isMaterialReady', `${workOrder} / ${stage}`, base, newStatus, version, v => sheetService.updateStageReady(workOrder, stage, newStatus, v));
     await fetchData();
+    await refreshHistory();
+  };
+
+  // One write for all ticked rows still shown in the modal; if any of them changed since it was loaded, nothing is applied
+  const applyToSelected = async (rowIds: string[], changes: RowBatchChanges) => {
+    const targets = rowIds.map(rowId => ({ rowId, expectedVersion: serverRows.current.get(rowId)?.version }));
+    try {
+      await sheetService.updateRows(targets, changes);
+    } catch (err: any) {
+      if (err instanceof ConflictError) alert(`${err.current.workOrder} / ${err.current.partNumber} 已被其他人修改，所選項目都未更新，請確認後再套用`);
+      else alert(err?.message || '套用失敗');
+    }
+    await fetchData();
+    await refreshHistory();
+  };
+
+  const applyBulkRemark = (rowIds: string[]) => {
+    if (!bulkValues.remark && !confirm(`確定清除所選 ${rowIds.length} 筆的備註?`)) return;
+    applyToSelected(rowIds, { purchaserRemark: bulkValues.remark });
   };
 
+  const resolveConflict = async (keepMine: boolean) => {
+    if (!conflict) return;
+    setConflict(null);
+    try {
+      if (keepMine) await conflict.keepMine();
+    } catch (err: any) {
+      alert(err?.message || '儲存失敗');
+    }
+    await fetchData();
+    await refreshHistory();
+  };
+
+  const renderConflictDialog = () => conflict && (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-slate-900/60">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-xl w-full p-8">
+        <h3 className="text-2xl font-bold mb-2 flex items-center gap-3 text-orange-700"><AlertCircle size={28}/> 資料已被其他人修改</h3>
+        <p className="text-slate-500 mb-6">{conflict.target} 的「{conflict.label}」在你編輯時已被更新{conflict.updatedAt ? ` (${new Date(conflict.updatedAt).toLocaleString()})` : ''}，請選擇要保留的內容。</p>
+        <div className="grid grid-cols-2 gap-4 mb-8">
+          <div className="border-2 border-blue-200 bg-blue-50 rounded-xl p-4">
+            <div className="text-sm font-bold text-blue-700 mb-2">你的修改</div>
+            <div className="text-lg font-medium text-slate-800 break-all whitespace-pre-wrap">{formatHistoryValue(String(conflict.mine))}</div>
+          </div>
+          <div className="border-2 border-slate-200 bg-slate-50 rounded-xl p-4">
+            <div className="text-sm font-bold text-slate-600 mb-2">目前儲存的內容</div>
+            <div className="text-lg font-medium text-slate-800 break-all whitespace-pre-wrap">{formatHistoryValue(String(conflict.theirs))}</div>
+          </div>
+        </div>
+        <div className="flex gap-4">
+          <button onClick={() => resolveConflict(false)} className="flex-1 py-3 bg-white border-2 border-slate-200 text-slate-700 font-bold rounded-xl hover:bg-slate-50 transition-colors">保留目前內容</button>
+          <button onClick={() => resolveConflict(true)} className="flex-1 py-3 bg-blue-600 text-white font-bold rounded-xl shadow-lg hover:bg-blue-700 transition-colors">改用我的修改</button>
+        </div>
+      </div>
+    </div>
+  );
+
   const toggleArchiveModel = async (modelName: string, archive: boolean) => {
-      setData(prevData => {
-         return prevData.map(r => {
-             if (r.model.trim().toLowerCase() === modelName.trim().toLowerCase()) {
-                 return { ...r, isArchived: archive };
-             }
-             return r;
-         });
-      });
+      // The model moves to the other tab, so drop it from the current list right away
+      setData(prevData => prevData.filter(r => r.model.trim().toLowerCase() !== modelName.trim().toLowerCase()));
       await sheetService.archiveModel(modelName, archive);
+      await fetchData();
+  };
+
+  // Every matching row, not just the pages loaded on screen
+  const loadAllRows = async () => {
+    const allRows: TrackingRow[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await sheetService.queryTracking({ ...buildQuery(), limit: MAX_PAGE_SIZE, cursor });
+      allRows.push(...page.rows);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return allRows;
   };
 
-  const handleExport = () => {
-    const exportData = filteredData.map(row => ({
+  const handleExport = async () => {
+    const allRows = await loadAllRows();
+    const exportData = allRows.map(row => ({
       '機種': row.model, '工單': row.workOrder, '製程': row.stage, '外包': row.vendor, 
       '生產日期': row.productionDate, '品號': row.productPartNumber,
       '料號': row.partNumber, '品名': row.partName, '規格': row.specification, '供應商': row.supplier,
@@ -264,49 +693,38 @@ const TrackingView = ({ user }: { user: User }) => {
       '客驗/出貨日': row.oqcDate, '採購回覆': row.purchaserReplyDate, '備註': row.purchaserRemark,
       '狀態': row.status
     }));
-    const ws = window.XLSX.utils.json_to_sheet(exportData);
-    const wb = window.XLSX.utils.book_new();
-    window.XLSX.utils.book_append_sheet(wb, ws, "Report");
-    window.XLSX.writeFile(wb, `ERP_Export.xlsx`);
-  };
-
-  const availableVendors = useMemo(() => Array.from(new Set(data.map(r => r.vendor).filter(Boolean))).sort(), [data]);
-  const availableSuppliers = useMemo(() => Array.from(new Set(data.map(r => r.supplier).filter(Boolean))).sort(), [data]);
-  const availableMonths = useMemo(() => {
-     const months = new Set<string>();
-     data.forEach(r => {
-        if (r.oqcDate && r.oqcDate.length >= 7) {
-            months.add(r.oqcDate.substring(0, 7));
-        }
-     });
-     return Array.from(months).sort();
-  }, [data]);
-
-  const filteredData = useMemo(() => {
-    return data.filter(row => {
-      if (viewMode === 'active' && row.isArchived) return false;
-      if (viewMode === 'archived' && !row.isArchived) return false;
-      if (monthFilter !== 'All') {
-          if (!row.oqcDate || !row.oqcDate.startsWith(monthFilter)) return false;
-      }
-      const matchSearch = row.workOrder.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                          row.partNumber.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                          row.model.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchStatus = statusFilter === 'All' || row.status === statusFilter;
-      const matchVendor = vendorFilter === 'All' || row.vendor === vendorFilter;
-      const matchSupplier = supplierFilter === 'All' || row.supplier === supplierFilter;
-      return matchSearch && matchStatus && matchVendor && matchSupplier;
-    });
-  }, [data, searchTerm, statusFilter, vendorFilter, supplierFilter, monthFilter, viewMode]);
+    const ws = XLSX.utils.json_to_sheet(exportData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Report");
+    XLSX.writeFile(wb, `ERP_Export.xlsx`);
+  };
 
   const groupedData = useMemo(() => {
     const groups: Record<string, TrackingRow[]> = {};
-    filteredData.forEach(row => {
+    data.forEach(row => {
       if (!groups[row.model]) groups[row.model] = [];
       groups[row.model].push(row);
     });
     return groups;
-  }, [filteredData]);
+  }, [data]);
+
+  const loadHistory = async (workOrder: string, stage: string) => {
+    setHistory(await sheetService.getHistory({ workOrder, stage, limit: 200 }));
+  };
+
+  // Keep an open history panel in step with edits made from the modal
+  const refreshHistory = async () => {
+    if (!history || !activeModal) return;
+    const repRow = data.find(r => r.model === activeModal.model && r.stage === activeModal.stage);
+    if (repRow) await loadHistory(repRow.workOrder, activeModal.stage);
+  };
+  refreshHistoryRef.current = refreshHistory;
+
+  const closeModal = () => {
+    setActiveModal(null);
+    setHistory(null);
+    setSelectedRows([]);
+  };
 
   const getStageStatus = (rows: TrackingRow[]) => {
     if (rows.length === 0) return 'ok'; 
@@ -327,6 +745,16 @@ const TrackingView = ({ user }: { user: User }) => {
 
     const realShortages = rows.filter(r => r.shortageQty > 0);
     const isReady = rows.length > 0 && rows.every(r => r.isMaterialReady);
+    const partNumberOf = (rowId: string) => rows.find(r => r.id === rowId)?.partNumber || rowId;
+
+    const canBulkEdit = (canEditReply || canAssign) && viewMode === 'active' && realShortages.length > 0;
+    // Rows that scrolled out of the modal (e.g. after a live refresh) drop out of the selection
+    const selected = realShortages.filter(r => selectedRows.includes(r.id));
+    const selectedIds = selected.map(r => r.id);
+    const allSelected = selected.length === realShortages.length && realShortages.length > 0;
+    const suppliers = Array.from(new Set(realShortages.map(r => r.supplier))).sort();
+    const toggleSelected = (rowId: string) => setSelectedRows(prev => prev.includes(rowId) ? prev.filter(id => id !== rowId) : [...prev, rowId]);
+    const selectSupplier = (supplier: string) => setSelectedRows(realShortages.filter(r => r.supplier === supplier).map(r => r.id));
 
     return (
       <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 md:p-8 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-200">
@@ -348,14 +776,56 @@ const TrackingView = ({ user }: { user: User }) => {
                     </div>
                  </div>
               </div>
-              <button onClick={() => setActiveModal(null)} className="p-3 bg-white border border-slate-200 rounded-full hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-all shadow-sm"><X size={28}/></button>
+              <div className="flex items-center gap-3">
+                 <button onClick={() => history ? setHistory(null) : loadHistory(repRow.workOrder, stage)} className={`px-5 py-3 border rounded-full font-bold flex items-center gap-2 transition-all shadow-sm ${history ? 'bg-blue-600 text-white border-blue-600' : 'bg-white border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300'}`}><History size={20}/> 變更紀錄</button>
+                 <button onClick={closeModal} className="p-3 bg-white border border-slate-200 rounded-full hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-all shadow-sm"><X size={28}/></button>
+              </div>
            </div>
 
+           <div className="flex-1 flex overflow-hidden">
            {/* Modal Body - Scrollable Table */}
            <div className="flex-1 overflow-auto bg-slate-50 p-6">
+              {canBulkEdit && (
+                <div className="mb-4 bg-white border border-slate-200 rounded-xl shadow-sm p-4 flex flex-wrap items-center gap-4">
+                  <select className="border border-slate-300 rounded-lg px-3 py-2 bg-white text-base font-bold text-slate-600 outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500" value="" onChange={e => { if (e.target.value) selectSupplier(e.target.value); }}>
+                    <option value="">全選供應商...</option>
+                    {suppliers.map(s => <option key={s} value={s}>{s || '(未填供應商)'}</option>)}
+                  </select>
+                  <span className="text-slate-500 font-bold">已選 {selected.length} 筆</span>
+                  {selected.length > 0 && (
+                    <>
+                      {canEditReply && (
+                        <>
+                          <div className="flex items-center gap-2">
+                            <input type="date" className="border border-slate-300 rounded-lg px-3 py-2 text-base outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500" value={bulkValues.replyDate} onChange={e => setBulkValues({ ...bulkValues, replyDate: e.target.value })}/>
+                            <button disabled={!bulkValues.replyDate} onClick={() => applyToSelected(selectedIds, { purchaserReplyDate: bulkValues.replyDate })} className="px-4 py-2 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 disabled:opacity-40 transition-colors">套用回覆交期</button>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <input className="border border-slate-300 rounded-lg px-3 py-2 text-base w-56 outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500" placeholder="備註..." value={bulkValues.remark} onChange={e => setBulkValues({ ...bulkValues, remark: e.target.value })}/>
+                            <button onClick={() => applyBulkRemark(selectedIds)} className="px-4 py-2 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 transition-colors">套用備註</button>
+                          </div>
+                        </>
+                      )}
+                      {canAssign && (
+                        <div className="flex items-center gap-2">
+                          <select className="border border-slate-300 rounded-lg px-3 py-2 bg-white text-base outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500" value={bulkValues.purchaser} onChange={e => setBulkValues({ ...bulkValues, purchaser: e.target.value })}>
+                            <option value="">未指派</option>
+                            {purchasers.map(p => <option key={p} value={p}>{p}</option>)}
+                          </select>
+                          <button onClick={() => applyToSelected(selectedIds, { purchaserUsername: bulkValues.purchaser })} className="px-4 py-2 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 transition-colors">指派採購</button>
+                        </div>
+                      )}
+                      <button onClick={() => setSelectedRows([])} className="ml-auto text-slate-400 hover:text-slate-700 font-bold transition-colors">取消選取</button>
+                    </>
+                  )}
+                </div>
+              )}
               <table className="w-full text-left table-fixed bg-white border border-slate-200 shadow-md rounded-lg overflow-hidden">
                 <thead className="text-slate-600 font-bold text-lg border-b-2 border-slate-200 bg-slate-100 sticky top-0 z-10 shadow-sm">
                   <tr>
+                    {canBulkEdit && (
+                      <th className="p-4 w-14 text-center border-r border-slate-200"><input type="checkbox" className="w-5 h-5 accent-blue-600 cursor-pointer" title="全選" checked={allSelected} onChange={() => setSelectedRows(allSelected ? [] : realShortages.map(r => r.id))}/></th>
+                    )}
                     <th className="p-4 pl-6 relative group select-none hover:bg-slate-200 transition-colors border-r border-slate-200" style={{ width: colWidths.part }}>
                       料號 / 品名
                       <div onMouseDown={(e) => handleResizeStart(e, 'part')} className="absolute right-0 top-0 bottom-0 w-2 cursor-col-resize hover:bg-blue-400 z-10 transition-colors"/>
@@ -372,39 +842,56 @@ const TrackingView = ({ user }: { user: User }) => {
                       採購回覆
                       <div onMouseDown={(e) => handleResizeStart(e, 'reply')} className="absolute right-0 top-0 bottom-0 w-2 cursor-col-resize hover:bg-blue-400 z-10 transition-colors"/>
                     </th>
-                    <th className="p-4 relative group select-none hover:bg-slate-200 transition-colors" style={{ width: colWidths.remark }}>
+                    <th className="p-4 relative group select-none hover:bg-slate-200 transition-colors border-r border-slate-200" style={{ width: colWidths.remark }}>
                       備註
                       <div onMouseDown={(e) => handleResizeStart(e, 'remark')} className="absolute right-0 top-0 bottom-0 w-2 cursor-col-resize hover:bg-blue-400 z-10 transition-colors"/>
                     </th>
+                    <th className="p-4 relative group select-none hover:bg-slate-200 transition-colors" style={{ width: colWidths.owner }}>
+                      負責採購
+                      <div onMouseDown={(e) => handleResizeStart(e, 'owner')} className="absolute right-0 top-0 bottom-0 w-2 cursor-col-resize hover:bg-blue-400 z-10 transition-colors"/>
+                    </th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-200 bg-white text-base">
                   {realShortages.length === 0 ? (
-                     <tr><td colSpan={5} className="p-10 text-center text-slate-400 text-xl font-bold">無欠料項目 (Great!)</td></tr>
+                     <tr><td colSpan={6} className="p-10 text-center text-slate-400 text-xl font-bold">無欠料項目 (Great!)</td></tr>
                   ) : (
                     realShortages.map(row => (
-                      <tr key={row.id} className="hover:bg-blue-50/50 transition-colors group">
-                        <td className="p-4 align-top overflow-hidden border-r border-slate-100" style={{ width: colWidths.part }}>
+                      <tr key={row.id} className={`hover:bg-blue-50/50 transition-colors group ${selectedRows.includes(row.id) ? 'bg-blue-50' : row.status === 'Late' ? 'bg-red-50/60' : ''}`}>
+                        {canBulkEdit && (
+                          <td className="p-4 align-top text-center border-r border-slate-100"><input type="checkbox" className="w-5 h-5 accent-blue-600 cursor-pointer" checked={selectedRows.includes(row.id)} onChange={() => toggleSelected(row.id)}/></td>
+                        )}
+                        <td className={`p-4 align-top overflow-hidden border-r border-slate-100 transition-colors duration-700 ${isFlashed(row.id, 'status') ? LIVE_FLASH_CLASS : ''}`} style={{ width: colWidths.part }}>
                           <div className="flex items-baseline justify-between">
                              <span className="font-extrabold text-slate-900 font-mono text-xl tracking-tight text-blue-900 truncate" title={row.partNumber}>{row.partNumber}</span>
+                             {row.status === 'Late' && <span className="shrink-0 ml-2 text-xs font-bold bg-red-100 text-red-700 px-2 py-1 rounded-lg border border-red-200">延遲</span>}
                           </div>
                           <div className="text-lg text-slate-700 mt-1 font-medium leading-relaxed truncate" title={row.partName}>{row.partName}</div>
                           <div className="text-base text-slate-400 mt-1 truncate font-mono" title={row.specification}>{row.specification}</div>
                         </td>
-                        <td className="p-4 align-top text-center border-r border-slate-100" style={{ width: colWidths.qty }}>
+                        <td className={`p-4 align-top text-center border-r border-slate-100 transition-colors duration-700 ${isFlashed(row.id, 'shortageQty') ? LIVE_FLASH_CLASS : ''}`} style={{ width: colWidths.qty }}>
                             <span className="font-mono font-bold text-xl text-red-600 bg-red-50 px-4 py-2 rounded-lg inline-block border border-red-200 shadow-sm">{row.shortageQty}</span>
                         </td>
                         <td className="p-4 align-top text-blue-800 font-bold text-lg truncate border-r border-slate-100" style={{ width: colWidths.supplier }} title={row.supplier}>{row.supplier}</td>
-                        <td className="p-4 align-top border-r border-slate-100" style={{ width: colWidths.reply }}>
-                          {isPurchaser && viewMode === 'active' ? (
+                        <td className={`p-4 align-top border-r border-slate-100 transition-colors duration-700 ${isFlashed(row.id, 'purchaserReplyDate') ? LIVE_FLASH_CLASS : ''}`} style={{ width: colWidths.reply }}>
+                          {canEditReply && viewMode === 'active' ? (
                             <div className="scale-110 origin-top-left w-[90%]"><CompactDateInput value={row.purchaserReplyDate} onChange={val => updateRow(row.id, {purchaserReplyDate: val})} /></div>
                           ) : <span className={`text-lg ${row.purchaserReplyDate ? 'text-slate-900 font-bold' : 'text-slate-300'}`}>{row.purchaserReplyDate || '-'}</span>}
                         </td>
-                        <td className="p-4 align-top" style={{ width: colWidths.remark }}>
-                          {isPurchaser && viewMode === 'active' ? (
-                            <textarea className="border border-slate-300 rounded-lg px-3 py-2 w-full bg-slate-50 text-base focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none transition-all resize-none h-24 shadow-inner" value={row.purchaserRemark} onChange={e => updateRow(row.id, {purchaserRemark: e.target.value})} placeholder="備註..." />
+                        <td className={`p-4 align-top border-r border-slate-100 transition-colors duration-700 ${isFlashed(row.id, 'purchaserRemark') ? LIVE_FLASH_CLASS : ''}`} style={{ width: colWidths.remark }}>
+                          {canEditReply && viewMode === 'active' ? (
+                            <textarea className="border border-slate-300 rounded-lg px-3 py-2 w-full bg-slate-50 text-base focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none transition-all resize-none h-24 shadow-inner" value={row.purchaserRemark} onChange={e => { const val = e.target.value; setData(prev => prev.map(r => r.id === row.id ? { ...r, purchaserRemark: val } : r)); }} onBlur={e => updateRow(row.id, {purchaserRemark: e.target.value})} placeholder="備註..." />
                           ) : <span className="text-base text-slate-600 block break-words leading-relaxed whitespace-pre-wrap">{row.purchaserRemark}</span>}
                         </td>
+                        <td className={`p-4 align-top transition-colors duration-700 ${isFlashed(row.id, 'purchaserUsername') ? LIVE_FLASH_CLASS : ''}`} style={{ width: colWidths.owner }}>
+                          {canAssign && viewMode === 'active' ? (
+                            <select className="border border-slate-300 rounded-lg px-3 py-2 w-full bg-white text-base outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500" value={row.purchaserUsername} onChange={e => reassignRow(row.id, e.target.value)}>
+                              <option value="">未指派</option>
+                              {row.purchaserUsername && !purchasers.includes(row.purchaserUsername) && <option value={row.purchaserUsername}>{row.purchaserUsername}</option>}
+                              {purchasers.map(p => <option key={p} value={p}>{p}</option>)}
+                            </select>
+                          ) : <span className={`text-base font-bold ${row.purchaserUsername ? 'text-slate-700' : 'text-slate-300'}`}>{row.purchaserUsername || '未指派'}</span>}
+                        </td>
                       </tr>
                     ))
                   )}
@@ -412,14 +899,45 @@ const TrackingView = ({ user }: { user: User }) => {
               </table>
            </div>
 
+           {/* History Panel */}
+           {history && (
+             <aside className="w-[420px] shrink-0 border-l border-slate-200 bg-white overflow-y-auto custom-scrollbar">
+                <div className="p-5 border-b border-slate-100 font-bold text-lg text-slate-700 flex items-center gap-2 sticky top-0 bg-white"><History size={20}/> 變更紀錄 <span className="text-sm text-slate-400 font-medium">({history.length})</span></div>
+                {history.length === 0 ? (
+                  <p className="p-8 text-center text-slate-400 font-bold">尚無紀錄</p>
+                ) : (
+                  <ul className="divide-y divide-slate-100">
+                    {history.map(h => (
+                      <li key={h.id} className="p-5 space-y-1">
+                        <div className="flex justify-between text-sm text-slate-400">
+                          <span className="font-bold text-slate-600">{h.actor}</span>
+                          <span className="font-mono">{new Date(h.timestamp).toLocaleString()}</span>
+                        </div>
+                        <div className="font-bold text-slate-800">
+                          {h.action === 'rollback' && <span className="text-orange-600">復原 · </span>}{HISTORY_FIELD_LABELS[h.field] || h.field}
+                          {h.rowId && <span className="ml-2 font-mono text-blue-800 text-sm">{partNumberOf(h.rowId)}</span>}
+                        </div>
+                        <div className="text-sm flex items-center gap-2 flex-wrap">
+                          <span className="text-slate-400 line-through break-all">{formatHistoryValue(h.oldValue)}</span>
+                          <ArrowRightCircle size={14} className="text-slate-300 shrink-0"/>
+                          <span className="text-slate-800 font-medium break-all">{formatHistoryValue(h.newValue)}</span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+             </aside>
+           )}
+           </div>
+
            {/* Modal Footer */}
            <div className="bg-white border-t border-slate-200 p-6 flex justify-end gap-6 shrink-0">
-              {isScheduler && viewMode === 'active' && (
+              {canToggleReady && viewMode === 'active' && (
                 <button onClick={() => toggleStageReady(repRow.workOrder, stage, isReady)} className={`flex items-center justify-center gap-3 px-8 py-4 rounded-xl text-xl font-bold transition-all shadow-md active:scale-95 ${isReady ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-white border-2 border-slate-300 text-slate-600 hover:border-blue-500 hover:text-blue-600'}`}>
                   {isReady ? <CheckSquare size={28}/> : <Square size={28}/>} {isReady ? '已確認齊料' : '確認齊料 (Ready)'}
                 </button>
               )}
-              <button onClick={() => setActiveModal(null)} className="px-10 py-4 bg-slate-800 text-white rounded-xl font-bold text-xl hover:bg-slate-900 transition-all shadow-lg active:scale-95">關閉視窗</button>
+              <button onClick={closeModal} className="px-10 py-4 bg-slate-800 text-white rounded-xl font-bold text-xl hover:bg-slate-900 transition-all shadow-lg active:scale-95">關閉視窗</button>
            </div>
         </div>
       </div>
@@ -432,6 +950,7 @@ const TrackingView = ({ user }: { user: User }) => {
     const realShortages = stageRows.filter(r => r.shortageQty > 0);
     const hasRealShortages = realShortages.length > 0;
     const status = getStageStatus(stageRows);
+    const changed = stageRows.some(r => LIVE_FIELDS.some(f => isFlashed(r.id, f)));
 
     if (!repRow) {
       return (
@@ -449,7 +968,7 @@ const TrackingView = ({ user }: { user: User }) => {
 
     return (
       <div 
-        className={`border-2 rounded-3xl overflow-hidden transition-all flex flex-col h-[240px] shadow-sm hover:shadow-xl hover:-translate-y-1 cursor-pointer group relative ${borderClass} ${bgClass}`}
+        className={`border-2 rounded-3xl overflow-hidden transition-all flex flex-col h-[240px] shadow-sm hover:shadow-xl hover:-translate-y-1 cursor-pointer group relative ${borderClass} ${bgClass} ${changed ? 'ring-4 ring-yellow-300' : ''}`}
         onClick={() => hasRealShortages && setActiveModal({model: modelName, stage: stageName})}
       >
         <div className="p-8 flex flex-col h-full relative z-10">
@@ -485,6 +1004,8 @@ const TrackingView = ({ user }: { user: User }) => {
   return (
     <div className="space-y-10 pb-24">
       {renderDetailModal()}
+      {renderConflictDialog()}
+      {showSupplierReport && <SupplierReportDialog loadRows={loadAllRows} onClose={() => setShowSupplierReport(false)} onImported={() => fetchData()} />}
       
       <div className="flex gap-10 border-b border-slate-200 pt-4">
          <button onClick={() => setViewMode('active')} className={`pb-5 px-3 font-bold text-xl flex items-center gap-3 transition-all ${viewMode === 'active' ? 'text-blue-600 border-b-4 border-blue-600' : 'text-slate-400 hover:text-slate-600'}`}><Layers size={24}/> 生產排程 (Active)</button>
@@ -499,16 +1020,17 @@ const TrackingView = ({ user }: { user: User }) => {
              <input className="pl-14 w-full border border-slate-300 rounded-2xl py-4 text-lg shadow-sm focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none transition-all" placeholder="搜尋機種、工單、料號..." value={searchTerm} onChange={e=>setSearchTerm(e.target.value)}/>
            </div>
            <div className="flex gap-4">
-             <button onClick={fetchData} className="px-8 py-4 bg-slate-100 hover:bg-slate-200 rounded-2xl flex items-center gap-3 text-base font-bold text-slate-700 transition-colors border border-slate-200 shadow-sm"><RefreshCw size={20}/> 刷新</button>
-             {isPurchaser && <button onClick={handleExport} className="px-8 py-4 bg-green-600 hover:bg-green-700 text-white rounded-2xl flex items-center gap-3 text-base font-bold transition-colors shadow-md hover:shadow-lg active:scale-95"><Download size={20}/> 匯出 Excel</button>}
+             <button onClick={() => fetchData()} className="px-8 py-4 bg-slate-100 hover:bg-slate-200 rounded-2xl flex items-center gap-3 text-base font-bold text-slate-700 transition-colors border border-slate-200 shadow-sm"><RefreshCw size={20}/> 刷新</button>
+             {canEditReply && <button onClick={() => setShowSupplierReport(true)} className="px-8 py-4 bg-white border-2 border-green-600 text-green-700 hover:bg-green-50 rounded-2xl flex items-center gap-3 text-base font-bold transition-colors shadow-sm active:scale-95"><FileSpreadsheet size={20}/> 供應商報表</button>}
+             {canEditReply && <button onClick={handleExport} className="px-8 py-4 bg-green-600 hover:bg-green-700 text-white rounded-2xl flex items-center gap-3 text-base font-bold transition-colors shadow-md hover:shadow-lg active:scale-95"><Download size={20}/> 匯出 Excel</button>}
            </div>
          </div>
-         {!isBusiness && (
+         {!isViewer && (
            <div className="grid grid-cols-2 md:grid-cols-4 gap-8">
-             <div><label className="text-base font-bold text-slate-600 mb-3 block">生產月份 (Month)</label><select className="w-full border border-slate-300 rounded-xl p-4 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={monthFilter} onChange={e=>setMonthFilter(e.target.value)}><option value="All">全部月份</option>{availableMonths.map(m => <option key={m} value={m}>{m}</option>)}</select></div>
+             <div><label className="text-base font-bold text-slate-600 mb-3 block">生產月份 (Month)</label><select className="w-full border border-slate-300 rounded-xl p-4 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={monthFilter} onChange={e=>setMonthFilter(e.target.value)}><option value="All">全部月份</option>{facets.oqcMonths.map(m => <option key={m} value={m}>{m}</option>)}</select></div>
              <div><label className="text-base font-bold text-slate-600 mb-3 block">狀態 (Status)</label><select className="w-full border border-slate-300 rounded-xl p-4 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={statusFilter} onChange={e=>setStatusFilter(e.target.value)}><option value="All">全部</option><option value="Pending">待回覆</option><option value="Confirmed">已確認</option><option value="Ready">已齊料</option><option value="Late">延遲</option></select></div>
-             <div><label className="text-base font-bold text-slate-600 mb-3 block">外包廠 (Vendor)</label><select className="w-full border border-slate-300 rounded-xl p-4 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={vendorFilter} onChange={e=>setVendorFilter(e.target.value)}><option value="All">全部</option>{availableVendors.map(v=><option key={v} value={v}>{v}</option>)}</select></div>
-             {isScheduler && (<div><label className="text-base font-bold text-slate-600 mb-3 block">供應商 (Supplier)</label><select className="w-full border border-slate-300 rounded-xl p-4 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={supplierFilter} onChange={e=>setSupplierFilter(e.target.value)}><option value="All">全部</option>{availableSuppliers.map(s=><option key={s} value={s}>{s}</option>)}</select></div>)}
+             <div><label className="text-base font-bold text-slate-600 mb-3 block">外包廠 (Vendor)</label><select className="w-full border border-slate-300 rounded-xl p-4 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={vendorFilter} onChange={e=>setVendorFilter(e.target.value)}><option value="All">全部</option>{facets.vendors.map(v=><option key={v} value={v}>{v}</option>)}</select></div>
+             {canAssign && (<div><label className="text-base font-bold text-slate-600 mb-3 block">供應商 (Supplier)</label><select className="w-full border border-slate-300 rounded-xl p-4 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={supplierFilter} onChange={e=>setSupplierFilter(e.target.value)}><option value="All">全部</option>{facets.suppliers.map(s=><option key={s} value={s}>{s}</option>)}</select></div>)}
            </div>
          )}
       </div>
@@ -530,15 +1052,15 @@ const TrackingView = ({ user }: { user: User }) => {
                      <span className="text-sm font-bold text-slate-400 uppercase tracking-widest">Model (機種)</span>
                      <span className="text-4xl font-extrabold text-slate-900 flex items-center gap-4">{modelName}{progress === 100 && <CheckCircle size={36} className="text-green-500 drop-shadow-sm"/>}</span>
                  </div>
-                 {isScheduler ? (
+                 {canEditOqc || canArchive ? (
                     <div className="flex flex-wrap gap-10 flex-1 justify-end items-center">
-                       {viewMode === 'active' && oqcRow && (
+                       {canEditOqc && viewMode === 'active' && oqcRow && (
                          <div className="flex flex-col">
                             <label className="text-sm text-slate-500 font-bold mb-2 uppercase tracking-wide">成品客驗 / 出貨日</label>
-                            <input type="date" className="border-2 border-slate-300 rounded-xl text-base px-5 py-3 bg-white shadow-sm focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none transition-all font-medium text-slate-700 w-56" value={formatDateForInput(oqcRow.oqcDate)} onChange={e => updateStageDate(oqcRow.workOrder, oqcRow.stage, 'oqcDate', e.target.value)} />
+                            <input type="date" className={`border-2 border-slate-300 rounded-xl text-base px-5 py-3 shadow-sm focus:ring-4 focus:ring-blue-100 focus:border-blue-500 outline-none transition-all duration-700 font-medium text-slate-700 w-56 ${isFlashed(oqcRow.id, 'oqcDate') ? LIVE_FLASH_CLASS : 'bg-white'}`} value={formatDateForInput(oqcRow.oqcDate)} onChange={e => updateStageDate(oqcRow.workOrder, oqcRow.stage, 'oqcDate', e.target.value)} />
                          </div>
                        )}
-                       <button onClick={() => toggleArchiveModel(modelName, viewMode === 'active')} className={`flex items-center gap-3 text-base font-bold px-8 py-4 rounded-2xl border-2 shadow-sm transition-all active:scale-95 ${viewMode === 'active' ? 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-blue-700 hover:border-blue-400' : 'bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100'}`}>{viewMode === 'active' ? <><PackageCheck size={24}/> 📦 移至歷史完工</> : <><RotateCcw size={24}/> 還原至生產排程</>}</button>
+                       {canArchive && <button onClick={() => toggleArchiveModel(modelName, viewMode === 'active')} className={`flex items-center gap-3 text-base font-bold px-8 py-4 rounded-2xl border-2 shadow-sm transition-all active:scale-95 ${viewMode === 'active' ? 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50 hover:text-blue-700 hover:border-blue-400' : 'bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100'}`}>{viewMode === 'active' ? <><PackageCheck size={24}/> 📦 移至歷史完工</> : <><RotateCcw size={24}/> 還原至生產排程</>}</button>}
                     </div>
                  ) : (
                     <div className="flex flex-wrap gap-2 text-sm text-slate-500 flex-1 justify-end">{oqcRow?.oqcDate && <span className="bg-blue-50 px-6 py-4 rounded-2xl border border-blue-100 font-bold text-blue-800 text-lg">出貨日: {oqcRow.oqcDate}</span>}</div>
@@ -561,7 +1083,21 @@ const TrackingView = ({ user }: { user: User }) => {
             </div>
           );
         })}
-        {Object.keys(groupedData).length === 0 && (
+        {nextCursor && (
+          <div className="flex flex-col items-center gap-3">
+            <span className="text-slate-400 font-medium">已載入 {data.length} / {totalRows} 筆</span>
+            <button onClick={loadMore} disabled={isLoading} className="px-10 py-4 bg-white border-2 border-slate-200 hover:border-blue-400 hover:text-blue-600 rounded-2xl flex items-center gap-3 text-base font-bold text-slate-600 transition-all shadow-sm active:scale-95">
+              {isLoading ? <RefreshCw size={20} className="animate-spin"/> : <ChevronDown size={20}/>} 載入更多
+            </button>
+          </div>
+        )}
+        {loadError && (
+          <div className="flex flex-col items-center gap-4 py-8 text-red-600">
+            <div className="flex items-center gap-2 font-bold text-lg"><AlertCircle size={24}/> 載入失敗：{loadError.message}</div>
+            <button onClick={loadError.retry} className="px-6 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-2 font-bold text-slate-700 border border-slate-200"><RefreshCw size={18}/> 重試</button>
+          </div>
+        )}
+        {!isLoading && !loadError && Object.keys(groupedData).length === 0 && (
           <div className="text-center py-32 text-slate-400 bg-white rounded-3xl border-2 border-dashed border-slate-300">
              <div className="bg-slate-50 w-32 h-32 rounded-full flex items-center justify-center mx-auto mb-8 shadow-sm"><Box size={64} className="text-slate-300"/></div>
             <p className="text-3xl font-bold text-slate-600">無符合條件的資料</p>
@@ -573,118 +1109,594 @@ const TrackingView = ({ user }: { user: User }) => {
   );
 };
 
+type ImportType = 'wo' | 'shortage' | 'merge' | 'replies';
+
+const IMPORT_KIND_LABELS: Record<ImportKind, string> = {
+  woDetails: '製令明細',
+  'shortages:replace': '欠料表 (完整取代)',
+  'shortages:merge': '欠料表 (更新數量)',
+};
+
+const IMPORT_TYPE_LABELS: Record<ImportType, string> = {
+  wo: '製令明細 (骨架)',
+  shortage: '完整取代 (清除舊欠料)',
+  merge: '更新數量 (保留備註)',
+  replies: '採購回覆交期',
+};
+
+interface ParsedImport {
+  wo: WODetailInput[];
+  shortages: Omit<ERPRawRow, 'id'>[];
+  replies: ReplyImportLine[];
+  rejected: RejectedRow[]; // Rows that failed validation and will not be imported
+}
+
+const importTarget = (type: ImportType): ImportTarget => type === 'wo' ? 'woDetails' : type === 'replies' ? 'replies' : 'shortages';
+
+// Only the layout of the chosen import type is parsed; Replace (shortage) and Merge (merge) share one
+const parseImportRows = (type: ImportType, sheet: SheetData, mappings: ImportFieldMapping[]): ParsedImport => {
+  if (type === 'wo') {
+    const report = validateWODetailRows(sheet.rows, mappings);
+    return { wo: report.valid, shortages: [], replies: [], rejected: report.rejected };
+  }
+  if (type === 'replies') {
+    const report = validateReplyRows(sheet.rows, mappings);
+    return { wo: [], shortages: [], replies: report.valid, rejected: report.rejected };
+  }
+  const report = validateShortageRows(sheet.rows, mappings);
+  return { wo: [], shortages: report.valid, replies: [], rejected: report.rejected };
+};
+
+// Original columns plus the row number and reasons, so the file can be fixed and uploaded again
+const downloadRejectedRows = (fileName: string, sheet: SheetData, rejected: RejectedRow[]) => {
+  const data = rejected.map(r => {
+    const line: Record<string, unknown> = { '原始列號': r.rowNumber, '錯誤原因': r.reasons.join('; ') };
+    sheet.headers.forEach(h => { line[h] = r.row[h] ?? ''; });
+    return line;
+  });
+  const ws = XLSX.utils.json_to_sheet(data, { header: ['原始列號', '錯誤原因', ...sheet.headers] });
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Rejected");
+  XLSX.writeFile(wb, `${fileName.replace(/\.[^.]+$/, '')}_錯誤列.xlsx`);
+};
+
+const REJECTED_PREVIEW_LIMIT = 5;
+
+// One sheet headed for one import type; a combined workbook upload carries two
+interface ImportRequest {
+  type: ImportType;
+  sheet: SheetData;
+  mappings?: ImportFieldMapping[]; // Unset until the column mapping is settled
+  profileName?: string;
+}
+
+interface ImportStep {
+  type: ImportType;
+  sheet: SheetData;
+  mappings: ImportFieldMapping[];
+  profileName: string;
+  parsed: ParsedImport;
+  diff: ImportDiff | null; // ERP imports
+  replyPreview: ReplyImportResult | null; // Reply uploads
+  count: number;
+  sample: string[];
+}
+
+interface MappingDraft {
+  file: File;
+  type: ImportType;
+  sheet: SheetData;
+  profiles: ImportProfile[];
+  suggestion: MappingSuggestion;
+  requests: ImportRequest[];
+  index: number; // Request the dialog is mapping
+}
+
+interface SheetPickDraft {
+  file: File;
+  workbook: ParsedWorkbook;
+  types: ImportType[];
+  guesses: string[]; // Pre-selected sheet name per type
+}
+
+const SheetPickerDialog = ({ draft, onCancel, onApply }: { draft: SheetPickDraft, onCancel: () => void, onApply: (sheets: SheetData[]) => void }) => {
+  const [names, setNames] = useState(draft.guesses);
+  const sheets = draft.workbook.sheets.filter(s => s.rows.length > 0);
+  const duplicate = new Set(names).size < names.length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4">
+      <div className="bg-white p-8 rounded-2xl max-w-xl w-full shadow-2xl animate-in fade-in zoom-in duration-200">
+        <h3 className="text-2xl font-bold mb-2">選擇工作表</h3>
+        <p className="text-slate-500 mb-6">活頁簿 <b>{draft.file.name}</b> 有 {sheets.length} 個工作表，請選擇要匯入的資料。</p>
+        <div className="space-y-4">
+          {draft.types.map((type, i) => (
+            <div key={type}>
+              <label className="text-base font-bold text-slate-600 mb-2 block">{IMPORT_TYPE_LABELS[type]}</label>
+              <select className="w-full border border-slate-300 rounded-xl p-3 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={names[i]} onChange={e => setNames(prev => prev.map((n, j) => j === i ? e.target.value : n))}>
+                {sheets.map(s => <option key={s.name} value={s.name}>{s.name} ({s.rows.length} 筆)</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+        {duplicate && <p className="text-sm text-red-600 font-bold mt-3">製令明細與欠料表不能使用同一個工作表</p>}
+        <div className="flex gap-4 mt-8">
+          <button onClick={onCancel} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-100 rounded-xl transition-colors">取消</button>
+          <button onClick={() => onApply(names.map(n => sheets.find(s => s.name === n)!))} disabled={duplicate} className="flex-1 py-3 bg-blue-600 text-white font-bold rounded-xl shadow-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50">
+            <CheckCircle/> 下一步
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ImportMappingDialog = ({ draft, onCancel, onApply }: { draft: MappingDraft, onCancel: () => void, onApply: (mappings: ImportFieldMapping[], profileName: string, saveProfile: boolean) => void }) => {
+  const target = importTarget(draft.type);
+  const [mappings, setMappings] = useState(draft.suggestion.mappings);
+  const [knownHeaders, setKnownHeaders] = useState(draft.suggestion.profile?.knownHeaders || []);
+  const [profileName, setProfileName] = useState(draft.suggestion.profile?.name || '');
+  const [saveProfile, setSaveProfile] = useState(true);
+  const { unknownHeaders, missingRequired } = describeMapping(target, draft.sheet.headers, mappings, knownHeaders);
+
+  const updateMapping = (field: string, patch: Partial<ImportFieldMapping>) =>
+    setMappings(prev => prev.map(m => m.field === field ? { ...m, ...patch } : m));
+
+  const loadProfile = (id: string) => {
+    const profile = draft.profiles.find(p => p.id === id);
+    const suggestion = suggestMapping(target, draft.sheet.headers, profile ? [profile] : []);
+    setMappings(suggestion.mappings);
+    setKnownHeaders(profile?.knownHeaders || []);
+    setProfileName(profile?.name || '');
+  };
+
+  const sample = draft.sheet.rows[0] || {};
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4">
+      <div className="bg-white p-8 rounded-2xl max-w-5xl w-full max-h-[90vh] flex flex-col shadow-2xl animate-in fade-in zoom-in duration-200">
+        <h3 className="text-2xl font-bold mb-2">設定欄位對應</h3>
+        <p className="text-slate-500 mb-4">{IMPORT_TYPE_LABELS[draft.type]} · 檔案 <b>{draft.file.name}</b>{draft.sheet.name ? ` (${draft.sheet.name})` : ''} 的欄位與現有設定不符，請確認每個欄位要讀取的 Excel 欄位。</p>
+        {unknownHeaders.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+            <span className="font-bold text-slate-600">未對應的欄位:</span>
+            {unknownHeaders.map(h => <span key={h} className="bg-yellow-100 text-yellow-800 font-bold px-2 py-1 rounded-md">{h}</span>)}
+          </div>
+        )}
+        {draft.profiles.length > 0 && (
+          <div className="flex items-center gap-3 mb-4">
+            <label className="font-bold text-slate-600 text-sm">套用設定檔</label>
+            <select className="border border-slate-300 rounded-lg p-2 text-sm bg-slate-50 outline-none" defaultValue={draft.suggestion.profile?.id || ''} onChange={e => loadProfile(e.target.value)}>
+              <option value="">預設欄位</option>
+              {draft.profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+        )}
+        <div className="overflow-auto custom-scrollbar border border-slate-200 rounded-xl min-h-0">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-100 text-slate-600 font-bold sticky top-0">
+              <tr><th className="p-3">系統欄位</th><th className="p-3">Excel 欄位</th><th className="p-3">範例值</th><th className="p-3">預設值</th><th className="p-3">轉換</th></tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {IMPORT_FIELDS[target].map(spec => {
+                const m = mappings.find(x => x.field === spec.field)!;
+                const missing = missingRequired.includes(spec.label);
+                return (
+                  <tr key={spec.field} className={missing ? 'bg-red-50/60' : ''}>
+                    <td className="p-3 font-bold text-slate-700">{spec.label}{spec.required && <span className="text-red-500"> *</span>}</td>
+                    <td className="p-3">
+                      <select className="w-full border border-slate-300 rounded-lg p-2 bg-white outline-none" value={m.source} onChange={e => updateMapping(spec.field, { source: e.target.value })}>
+                        <option value="">(不使用)</option>
+                        {draft.sheet.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                      </select>
+                    </td>
+                    <td className="p-3 font-mono text-slate-500 truncate max-w-[160px]">{m.source ? String(sample[m.source] ?? '') : ''}</td>
+                    <td className="p-3"><input className="w-full border border-slate-300 rounded-lg p-2 outline-none" value={m.defaultValue} onChange={e => updateMapping(spec.field, { defaultValue: e.target.value })}/></td>
+                    <td className="p-3">
+                      <select className="border border-slate-300 rounded-lg p-2 bg-white outline-none" value={m.transform} onChange={e => updateMapping(spec.field, { transform: e.target.value as ImportTransform })}>
+                        {(Object.keys(IMPORT_TRANSFORM_LABELS) as ImportTransform[]).map(t => <option key={t} value={t}>{IMPORT_TRANSFORM_LABELS[t]}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center gap-3 mt-4">
+          <label className="flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={saveProfile} onChange={e => setSaveProfile(e.target.checked)}/> 儲存為設定檔
+          </label>
+          {saveProfile && <input className="flex-1 border border-slate-300 rounded-lg p-2 text-sm outline-none" placeholder="設定檔名稱 (例如: 鼎新 ERP 欠料表)" value={profileName} onChange={e => setProfileName(e.target.value)}/>}
+        </div>
+        {missingRequired.length > 0 && <p className="text-sm text-red-600 font-bold mt-3">必填欄位尚未對應: {missingRequired.join(', ')}</p>}
+        <div className="flex gap-4 mt-6">
+          <button onClick={onCancel} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-100 rounded-xl transition-colors">取消</button>
+          <button
+            onClick={() => {
+              if (saveProfile && !profileName.trim()) return alert('請輸入設定檔名稱');
+              onApply(mappings, profileName.trim(), saveProfile);
+            }}
+            disabled={missingRequired.length > 0}
+            className="flex-1 py-3 bg-blue-600 text-white font-bold rounded-xl shadow-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <CheckCircle/> 套用並預覽
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const DIFF_PREVIEW_LIMIT = 300;
+
+const ReplyImportSummary = ({ result }: { result: ReplyImportResult }) => {
+  const problems = [
+    ...result.unmatched.map(u => ({ rowNumber: u.rowNumber, kind: '找不到', reason: u.reason })),
+    ...result.skipped.map(u => ({ rowNumber: u.rowNumber, kind: '保留系統資料', reason: u.reason })),
+  ].sort((a, b) => a.rowNumber - b.rowNumber);
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <div className="flex flex-wrap gap-3 mb-4 text-sm font-bold">
+        <span className="bg-green-100 text-green-700 px-3 py-1 rounded-lg">將更新 {result.updated}</span>
+        <span className="bg-slate-200 text-slate-700 px-3 py-1 rounded-lg">未變更 {result.unchanged}</span>
+        <span className={`px-3 py-1 rounded-lg ${result.unmatched.length ? 'bg-red-600 text-white' : 'bg-red-100 text-red-700'}`}>找不到對應欠料 {result.unmatched.length}</span>
+        {result.skipped.length > 0 && <span className="bg-orange-100 text-orange-700 px-3 py-1 rounded-lg">系統內已有較新回覆 {result.skipped.length}</span>}
+      </div>
+      {problems.length > 0 && (
+        <div className="overflow-auto custom-scrollbar border border-slate-200 rounded-xl min-h-0">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-100 text-slate-600 font-bold sticky top-0">
+              <tr><th className="p-3">列號</th><th className="p-3">狀況</th><th className="p-3">說明</th></tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {problems.slice(0, DIFF_PREVIEW_LIMIT).map((p, i) => (
+                <tr key={i}>
+                  <td className="p-3 font-mono">{p.rowNumber}</td>
+                  <td className="p-3"><span className={`px-2 py-1 rounded-md font-bold text-xs ${p.kind === '找不到' ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'}`}>{p.kind}</span></td>
+                  <td className="p-3 text-slate-600">{p.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ImportDiffTable = ({ diff }: { diff: ImportDiff }) => {
+  const key = (l: ImportDiffLine) => `${l.workOrder}-${l.partNumber}`;
+  const lostKeys = new Set(diff.purchaserDataLost.map(key));
+  const recheckKeys = new Set(diff.repliesToRecheck.map(key));
+  const lines = [
+    ...diff.purchaserDataLost.map(l => ({ kind: 'lost' as const, line: l })),
+    ...diff.repliesToRecheck.map(l => ({ kind: 'recheck' as const, line: l })),
+    ...diff.removed.filter(l => !lostKeys.has(key(l))).map(l => ({ kind: 'removed' as const, line: l })),
+    ...diff.qtyChanged.filter(l => !lostKeys.has(key(l)) && !recheckKeys.has(key(l))).map(l => ({ kind: 'qty' as const, line: l })),
+    ...diff.added.map(l => ({ kind: 'added' as const, line: l })),
+  ];
+  const kindLabel = { lost: ['遺失回覆', 'bg-red-100 text-red-700'], recheck: ['回覆需確認', 'bg-orange-100 text-orange-700'], removed: ['刪除', 'bg-slate-200 text-slate-700'], qty: ['數量變更', 'bg-yellow-100 text-yellow-800'], added: ['新增', 'bg-green-100 text-green-700'] };
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <div className="flex flex-wrap gap-3 mb-4 text-sm font-bold">
+        <span className="bg-green-100 text-green-700 px-3 py-1 rounded-lg">新增 {diff.added.length}</span>
+        <span className="bg-slate-200 text-slate-700 px-3 py-1 rounded-lg">刪除 {diff.removed.length}</span>
+        <span className="bg-yellow-100 text-yellow-800 px-3 py-1 rounded-lg">數量變更 {diff.qtyChanged.length}</span>
+        <span className={`px-3 py-1 rounded-lg ${diff.purchaserDataLost.length ? 'bg-red-600 text-white' : 'bg-red-100 text-red-700'}`}>將遺失採購回覆 {diff.purchaserDataLost.length}</span>
+        {diff.repliesToRecheck.length > 0 && <span className="bg-orange-100 text-orange-700 px-3 py-1 rounded-lg">數量變更需重新確認回覆 {diff.repliesToRecheck.length}</span>}
+        {diff.newWorkOrders.length > 0 && <span className="bg-blue-100 text-blue-700 px-3 py-1 rounded-lg">新工單 {diff.newWorkOrders.length}</span>}
+        {diff.woDetailChanges.length > 0 && <span className="bg-blue-100 text-blue-700 px-3 py-1 rounded-lg">工單資訊變更 {diff.woDetailChanges.length}</span>}
+      </div>
+      <div className="overflow-auto custom-scrollbar border border-slate-200 rounded-xl min-h-0">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-100 text-slate-600 font-bold sticky top-0">
+            <tr><th className="p-3">變更</th><th className="p-3">工單</th><th className="p-3">料號 / 欄位</th><th className="p-3 text-right">原值</th><th className="p-3 text-right">新值</th><th className="p-3">將遺失的採購資料</th></tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {lines.slice(0, DIFF_PREVIEW_LIMIT).map(({ kind, line }) => (
+              <tr key={`${kind}-${line.workOrder}-${line.partNumber}`} className={kind === 'lost' ? 'bg-red-50/60' : ''}>
+                <td className="p-3"><span className={`px-2 py-1 rounded-md font-bold text-xs ${kindLabel[kind][1]}`}>{kindLabel[kind][0]}</span></td>
+                <td className="p-3 font-mono">{line.workOrder}</td>
+                <td className="p-3 font-mono">{line.partNumber}</td>
+                <td className="p-3 text-right font-mono">{line.oldQty ?? '-'}</td>
+                <td className="p-3 text-right font-mono">{line.newQty ?? '-'}</td>
+                <td className="p-3 text-red-700">{[line.lostReplyDate, line.lostRemark].filter(Boolean).join(' / ')}</td>
+              </tr>
+            ))}
+            {diff.woDetailChanges.slice(0, DIFF_PREVIEW_LIMIT).map(c => (
+              <tr key={`wo-${c.workOrder}-${c.field}`}>
+                <td className="p-3"><span className="px-2 py-1 rounded-md font-bold text-xs bg-blue-100 text-blue-700">工單資訊</span></td>
+                <td className="p-3 font-mono">{c.workOrder}</td>
+                <td className="p-3">{c.field}</td>
+                <td className="p-3 text-right">{c.oldValue || '-'}</td>
+                <td className="p-3 text-right">{c.newValue || '-'}</td>
+                <td className="p-3"></td>
+              </tr>
+            ))}
+            {lines.length === 0 && diff.woDetailChanges.length === 0 && (
+              <tr><td colSpan={6} className="p-6 text-center text-slate-400 font-bold">{diff.newWorkOrders.length ? `將建立 ${diff.newWorkOrders.length} 張新工單` : '沒有任何變更'}</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {lines.length > DIFF_PREVIEW_LIMIT && <p className="text-sm text-slate-400 mt-2">僅顯示前 {DIFF_PREVIEW_LIMIT} 筆，共 {lines.length} 筆變更</p>}
+    </div>
+  );
+};
+
 const UploadView = ({ user }: { user: User }) => {
+  const canImport = can(user, 'import');
+  const canEditReply = can(user, 'editReplyDate');
   const [loading, setLoading] = useState(false);
-  const [confirmData, setConfirmData] = useState<{count: number, sample: string[], file: File, type: 'wo' | 'shortage' | 'merge'} | null>(null);
-
-  const downloadTemplate = (type: 'wo' | 'shortage') => {
+  // replyAsOf: when the file's replies were current (ISO); replies changed in the app after that are kept
+  const [confirmData, setConfirmData] = useState<{file: File, steps: ImportStep[], replyAsOf: string} | null>(null);
+  const [mappingDraft, setMappingDraft] = useState<MappingDraft | null>(null);
+  const [sheetPick, setSheetPick] = useState<SheetPickDraft | null>(null);
+  const [workbookMode, setWorkbookMode] = useState<'merge' | 'shortage'>('merge');
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+
+  const downloadTemplate = (type: 'wo' | 'shortage' | 'replies') => {
     let data: any[] = [];
     let name = '';
     if (type === 'wo') {
       data = [{ "工單號碼": "WO-1234", "機種": "MODEL-A", "外包廠商": "Foxconn", "階級": "SMT (或 組裝/包裝)", "品號": "半成品料號", "生產日期": "2024-12-01" }];
       name = 'Template_製令明細.xlsx';
+    } else if (type === 'replies') {
+      data = [{ "工單號碼": "WO-1234", "料號": "PN-123", "回覆交期": "2024-11-25", "備註": "分批交貨" }];
+      name = 'Template_採購回覆.xlsx';
     } else {
       data = [{ "工單號碼": "WO-1234", "料號": "PN-123", "品名": "RES 10K", "規格": "0402", "供應商": "Yageo", "欠料數量": 1000 }];
       name = 'Template_製令欠料表.xlsx';
     }
-    const ws = window.XLSX.utils.json_to_sheet(data);
-    const wb = window.XLSX.utils.book_new();
-    window.XLSX.utils.book_append_sheet(wb, ws, "Template");
-    window.XLSX.writeFile(wb, name);
+    const ws = XLSX.utils.json_to_sheet(data);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Template");
+    XLSX.writeFile(wb, name);
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>, type: 'wo' | 'shortage' | 'merge') => {
+  // Dry-run the import so the dialog can show exactly what will change
+  const runImport = (type: ImportType, parsed: ParsedImport, dryRun: boolean, label: string) =>
+    type === 'wo'
+      ? sheetService.importWODetails(parsed.wo, { dryRun, label })
+      : sheetService.importShortages(parsed.shortages, type === 'merge' ? 'merge' : 'replace', { dryRun, label });
+
+  const fetchBatches = async () => {
+    setBatches(await sheetService.listImportBatches(10));
+  };
+  useEffect(() => { if (canImport) fetchBatches(); }, []);
+
+  const handleRollback = async (batch: ImportBatch) => {
+    if (!confirm(`確定復原 ${batch.label || batch.id}?\n相關工單 (${batch.workOrders.split(',').length} 張) 會回到匯入前的狀態，匯入後的修改也會一併還原。`)) return;
+    setLoading(true);
+    try {
+      await sheetService.rollbackImportBatch(batch.id);
+      alert('已復原');
+    } catch (err: any) {
+      alert(err?.message || '復原失敗');
+    } finally {
+      setLoading(false);
+      await fetchBatches();
+    }
+  };
+
+  // Runs a step of the upload flow behind the spinner; any failure ends the flow with an alert
+  const guarded = async (action: () => Promise<void>, failMessage: string) => {
+    setLoading(true);
+    try {
+      await action();
+    } catch (err: any) {
+      alert(err?.message || failMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Replies are as of the report time of a supplier report, else the file's last save. Copying a file can
+  // reset that date, so the confirm dialog lets the user correct it.
+  const defaultReplyAsOf = (file: File, requests: ImportRequest[]) => {
+    const report = requests.find(r => r.type === 'replies' && isSupplierReport(r.sheet));
+    const generatedAt = report ? parseSupplierReport(report.sheet).generatedAt : '';
+    return new Date(generatedAt && !isNaN(Date.parse(generatedAt)) ? generatedAt : file.lastModified).toISOString();
+  };
+
+  // Dry-run every request so the dialog can show exactly what will change
+  const previewImports = async (file: File, requests: ImportRequest[], replyAsOf: string = defaultReplyAsOf(file, requests)) => {
+    const steps: ImportStep[] = [];
+    for (const r of requests) {
+      const parsed = parseImportRows(r.type, r.sheet, r.mappings!);
+      const lines: { workOrder?: string }[] = r.type === 'wo' ? parsed.wo : r.type === 'replies' ? parsed.replies : parsed.shortages;
+      const replyPreview = r.type === 'replies' ? await sheetService.importReplies(parsed.replies, { asOf: replyAsOf, dryRun: true }) : null;
+      const preview = r.type === 'replies' ? null : await runImport(r.type, parsed, true, file.name);
+      steps.push({
+        type: r.type,
+        sheet: r.sheet,
+        mappings: r.mappings!,
+        profileName: r.profileName || '',
+        parsed: parsed,
+        diff: preview ? preview.diff : null,
+        replyPreview,
+        count: lines.length,
+        sample: Array.from(new Set(lines.map(l => l.workOrder || ''))).filter(Boolean).slice(0, 3)
+      });
+    }
+    setConfirmData({ file, steps, replyAsOf });
+  };
+
+  const changeReplyAsOf = (value: string) => {
+    if (!confirmData || !value) return;
+    const { file, steps } = confirmData;
+    guarded(() => previewImports(file, steps.map(({ type, sheet, mappings, profileName }) => ({ type, sheet, mappings, profileName })), new Date(value).toISOString()), '無法更新預覽');
+  };
+
+  const openMapping = async (file: File, requests: ImportRequest[], index: number) => {
+    const { type, sheet } = requests[index];
+    const profiles = await sheetService.listImportProfiles(importTarget(type));
+    setMappingDraft({ file, type, sheet, profiles, suggestion: suggestMapping(importTarget(type), sheet.headers, profiles), requests, index });
+  };
+
+  // Fills in saved or built-in mappings; headers we haven't seen before go to the mapping dialog
+  // instead of silently importing blanks
+  const resolveRequests = async (file: File, requests: ImportRequest[]) => {
+    const resolved = requests.map(r => ({ ...r }));
+    for (let i = 0; i < resolved.length; i++) {
+      const r = resolved[i];
+      if (r.mappings) continue;
+      const profiles = await sheetService.listImportProfiles(importTarget(r.type));
+      const suggestion = suggestMapping(importTarget(r.type), r.sheet.headers, profiles);
+      if (suggestion.unknownHeaders.length > 0 || suggestion.missingRequired.length > 0) {
+        setMappingDraft({ file, type: r.type, sheet: r.sheet, profiles, suggestion, requests: resolved, index: i });
+        return;
+      }
+      r.mappings = suggestion.mappings;
+      r.profileName = suggestion.profile?.name || '';
+    }
+    await previewImports(file, resolved);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>, types: ImportType[]) => {
     const file = e.target.files?.[0];
-    if (!file) return;
-    
-    // Read just to count
-    const reader = new FileReader();
-    reader.onload = (evt) => {
-        try {
-            const bstr = evt.target?.result;
-            const wb = window.XLSX.read(bstr, { type: 'binary' });
-            const ws = wb.Sheets[wb.SheetNames[0]];
-            const jsonData = window.XLSX.utils.sheet_to_json(ws);
-            const wos = new Set(jsonData.map((r: any) => r['工單號碼'] || r['WO']).filter(Boolean));
-            setConfirmData({
-                count: jsonData.length,
-                sample: Array.from(wos).slice(0, 3) as string[],
-                file: file,
-                type: type
-            });
-        } catch(e) { alert('檔案讀取失敗'); }
-    };
-    reader.readAsBinaryString(file);
     e.target.value = ''; // Reset
+    if (!file) return;
+    await guarded(async () => {
+      const workbook = await readImportFile(file);
+      const sheets = workbook.sheets.filter(s => s.rows.length > 0);
+      if (sheets.length === 0) throw new Error('檔案中沒有資料');
+      if (sheets.length < types.length) throw new Error('活頁簿需要兩個工作表：製令明細與欠料表');
+      if (sheets.length === 1) return resolveRequests(file, [{ type: types[0], sheet: sheets[0] }]);
+
+      const guesses: string[] = [];
+      for (const type of types) {
+        const profiles = await sheetService.listImportProfiles(importTarget(type));
+        const guess = guessSheet(sheets.filter(s => !guesses.includes(s.name)), importTarget(type), profiles);
+        guesses.push((guess || sheets.find(s => !guesses.includes(s.name))!).name);
+      }
+      setSheetPick({ file, workbook, types, guesses });
+    }, '檔案讀取失敗');
+  };
+
+  const applySheetPick = (sheets: SheetData[]) => {
+    if (!sheetPick) return;
+    const { file, types } = sheetPick;
+    setSheetPick(null);
+    guarded(() => resolveRequests(file, types.map((type, i) => ({ type, sheet: sheets[i] }))), '檔案讀取失敗');
   };
 
+  const applyMapping = (mappings: ImportFieldMapping[], profileName: string, saveProfile: boolean) => {
+    if (!mappingDraft) return;
+    const { file, type, sheet, requests, index } = mappingDraft;
+    setMappingDraft(null);
+    guarded(async () => {
+      if (saveProfile) {
+        await sheetService.saveImportProfile({ name: profileName, target: importTarget(type), mappings, knownHeaders: sheet.headers });
+      }
+      const next = requests.map((r, i) => i === index ? { ...r, mappings, profileName: saveProfile ? profileName : '' } : r);
+      await resolveRequests(file, next);
+    }, '檔案讀取失敗');
+  };
+
+  const adjustMapping = (index: number) => {
+    if (!confirmData) return;
+    const { file, steps } = confirmData;
+    setConfirmData(null);
+    guarded(() => openMapping(file, steps.map(({ type, sheet, mappings, profileName }) => ({ type, sheet, mappings, profileName })), index), '檔案讀取失敗');
+  };
+
+  // Steps run in order, so a combined workbook creates the WO skeletons before their shortages
   const executeImport = async () => {
     if (!confirmData) return;
     setLoading(true);
-    
-    const reader = new FileReader();
-    reader.onload = async (evt) => {
-      try {
-        const bstr = evt.target?.result;
-        const wb = window.XLSX.read(bstr, { type: 'binary' });
-        const ws = wb.Sheets[wb.SheetNames[0]];
-        const jsonData = window.XLSX.utils.sheet_to_json(ws);
-
-        if (confirmData.type === 'wo') {
-          const parsed = jsonData.map((row: any) => ({
-             workOrder: (row['工單號碼'] || row['WO'] || '').toString().trim(),
-             model: (row['機種'] || row['Model'] || '').toString().trim(),
-             vendor: (row['外包廠商'] || row['Vendor'] || '').toString().trim(),
-             stage: (row['階級'] || row['Stage'] || 'SMT').toString().trim(),
-             productPartNumber: (row['品號'] || '').toString().trim(),
-             productionDate: formatDateForInput(row['生產日期'] || row['Production Date'])
-          })).filter((r: any) => r.workOrder);
-          await sheetService.importWODetails(parsed);
-        } else {
-          // Both Replace (shortage) and Merge (merge) use similar parsing
-          const parsed = jsonData.map((row: any) => ({
-             workOrder: (row['工單號碼'] || row['WO'] || '').toString().trim(),
-             partNumber: (row['料號'] || row['Part No'] || '').toString().trim(),
-             partName: (row['品名'] || row['Part Name'] || '').toString().trim(),
-             specification: (row['規格'] || row['Spec'] || '').toString().trim(),
-             supplier: (row['供應商'] || row['Supplier'] || '').toString().trim(),
-             shortageQty: Number(row['欠料數量'] || row['Qty'] || 0)
-          })).filter((r: any) => r.workOrder && r.partNumber);
-          
-          await sheetService.importShortages(parsed, confirmData.type === 'merge' ? 'merge' : 'replace');
+    const messages: string[] = [];
+    try {
+      for (const step of confirmData.steps) {
+        if (step.type === 'replies') {
+          const result = await sheetService.importReplies(step.parsed.replies, { asOf: confirmData.replyAsOf });
+          const notes = [...result.unmatched, ...result.skipped].sort((a, b) => a.rowNumber - b.rowNumber);
+          messages.push(`${IMPORT_TYPE_LABELS[step.type]}: 更新 ${result.updated} 項，未變更 ${result.unchanged} 項` +
+            (step.parsed.rejected.length ? `，${step.parsed.rejected.length} 筆驗證失敗未匯入` : '') +
+            (notes.length ? `\n${notes.length} 筆未套用：\n${notes.slice(0, 10).map(n => `第 ${n.rowNumber} 列 ${n.reason}`).join('\n')}` : ''));
+          continue;
         }
-        alert(`成功處理 ${jsonData.length} 筆資料`);
-        setConfirmData(null);
-      } catch (err) {
-        alert('解析失敗');
-        console.error(err);
-      } finally {
-        setLoading(false);
+        const result = await runImport(step.type, step.parsed, false, confirmData.file.name);
+        const recheck = result.diff.repliesToRecheck;
+        const rejected = step.parsed.rejected.length;
+        messages.push(`${IMPORT_TYPE_LABELS[step.type]}: 成功處理 ${step.count} 筆資料` + (rejected ? `，${rejected} 筆驗證失敗未匯入` : '') + (recheck.length ? `\n${recheck.length} 筆保留的採購回覆數量已變更，請重新確認：\n${recheck.slice(0, 10).map(l => `${l.workOrder} ${l.partNumber} (${l.oldQty} → ${l.newQty})`).join('\n')}` : ''));
       }
-    };
-    reader.readAsBinaryString(confirmData.file);
+      alert(messages.join('\n\n'));
+      setConfirmData(null);
+    } catch (err: any) {
+      alert(['匯入失敗', ...messages, err?.message || ''].filter(Boolean).join('\n\n'));
+    } finally {
+      setLoading(false);
+      if (canImport) await fetchBatches();
+    }
   };
 
   return (
     <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm max-w-5xl mx-auto space-y-12">
        <div>
-          <h2 className="text-3xl font-extrabold text-slate-800 mb-4">匯入 ERP 資料</h2>
-          <p className="text-slate-500 text-lg">請依照順序匯入：先匯入製令明細(骨架)，再匯入/更新欠料表。</p>
+          <h2 className="text-3xl font-extrabold text-slate-800 mb-4">{canImport ? '匯入 ERP 資料' : '匯入採購回覆'}</h2>
+          <p className="text-slate-500 text-lg">{canImport ? '請依照順序匯入：先匯入製令明細(骨架)，再匯入/更新欠料表。' : '上傳供應商回覆的交期表，一次更新多筆回覆交期與備註。'}</p>
        </div>
 
+       {loading && !confirmData && !mappingDraft && !sheetPick && (
+         <div className="fixed inset-0 bg-black/30 z-[100] flex items-center justify-center"><RefreshCw className="animate-spin text-white" size={48}/></div>
+       )}
+
+       {sheetPick && (
+         <SheetPickerDialog draft={sheetPick} onCancel={() => setSheetPick(null)} onApply={applySheetPick} />
+       )}
+
+       {mappingDraft && (
+         <ImportMappingDialog draft={mappingDraft} onCancel={() => setMappingDraft(null)} onApply={applyMapping} />
+       )}
+
        {confirmData && (
-         <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center">
-            <div className="bg-white p-8 rounded-2xl max-w-md w-full shadow-2xl animate-in fade-in zoom-in duration-200">
+         <div className="fixed inset-0 bg-black/50 z-[100] flex items-center justify-center p-4">
+            <div className="bg-white p-8 rounded-2xl max-w-5xl w-full max-h-[90vh] flex flex-col shadow-2xl animate-in fade-in zoom-in duration-200">
                 <h3 className="text-2xl font-bold mb-4">確認匯入?</h3>
-                <div className="bg-slate-50 p-4 rounded-xl mb-6 text-slate-600">
-                    <p>檔案: <b>{confirmData.file.name}</b></p>
-                    <p>筆數: <b>{confirmData.count}</b></p>
-                    <p>模式: <b>{confirmData.type === 'wo' ? '製令明細 (骨架)' : confirmData.type === 'merge' ? '更新數量 (保留備註)' : '完整取代 (清除舊欠料)'}</b></p>
-                    <p className="mt-2 text-sm text-slate-500">包含工單: {confirmData.sample.join(', ')} ...</p>
+                <div className="overflow-auto custom-scrollbar min-h-0 flex-1 space-y-8 pr-1">
+                {confirmData.steps.map((step, i) => (
+                  <div key={i} className="flex flex-col">
+                    <div className="bg-slate-50 p-4 rounded-xl mb-6 text-slate-600">
+                        <p>檔案: <b>{confirmData.file.name}</b>{step.sheet.name && confirmData.steps.length > 1 ? <> · 工作表 <b>{step.sheet.name}</b></> : null}</p>
+                        <p>筆數: <b>{step.count}</b></p>
+                        <p>模式: <b>{IMPORT_TYPE_LABELS[step.type]}</b></p>
+                        <p>欄位對應: <b>{step.profileName || '預設欄位'}</b>
+                          <button onClick={() => adjustMapping(i)} className="ml-3 text-sm text-blue-600 hover:text-blue-800 font-bold">調整欄位對應</button>
+                        </p>
+                        <p className="mt-2 text-sm text-slate-500">包含工單: {step.sample.join(', ')} ...</p>
+                    </div>
+                    {step.parsed.rejected.length > 0 && (
+                      <div className="bg-red-50 border border-red-200 p-4 rounded-xl mb-4 text-sm">
+                        <div className="flex items-center justify-between mb-2">
+                          <p className="font-bold text-red-700 flex items-center gap-2"><AlertCircle size={18}/> {step.parsed.rejected.length} 筆資料驗證失敗，不會匯入</p>
+                          <button onClick={() => downloadRejectedRows(confirmData.file.name, step.sheet, step.parsed.rejected)} className="text-red-700 hover:text-red-900 font-bold flex items-center gap-2"><Download size={16}/> 下載錯誤列</button>
+                        </div>
+                        <ul className="text-red-700 space-y-1">
+                          {step.parsed.rejected.slice(0, REJECTED_PREVIEW_LIMIT).map(r => <li key={r.rowNumber}>第 {r.rowNumber} 列: {r.reasons.join('; ')}</li>)}
+                          {step.parsed.rejected.length > REJECTED_PREVIEW_LIMIT && <li>...</li>}
+                        </ul>
+                        {step.type === 'shortage' && <p className="mt-2 text-red-600">完整取代模式下，錯誤列的料號會從該工單移除，建議修正後再匯入。</p>}
+                      </div>
+                    )}
+                    {confirmData.steps.length > 1 && step.type !== 'wo' && <p className="text-sm text-slate-500 mb-3">欠料表預覽是以目前資料計算，新工單的機種等資訊會在製令明細匯入後套用。</p>}
+                    {step.diff && <ImportDiffTable diff={step.diff} />}
+                    {step.replyPreview && (
+                      <label className="flex flex-wrap items-center gap-3 mb-4 text-slate-600">
+                        <span className="font-bold">檔案資料時間</span>
+                        <input type="datetime-local" className="border border-slate-300 rounded-lg px-3 py-2 text-base outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500" value={formatDateTimeForInput(confirmData.replyAsOf)} onChange={e => changeReplyAsOf(e.target.value)}/>
+                        <span className="text-sm text-slate-500">預設為報表時間或檔案最後存檔時間；在此之後於系統內修改的回覆會保留</span>
+                      </label>
+                    )}
+                    {step.replyPreview && <ReplyImportSummary result={step.replyPreview} />}
+                  </div>
+                ))}
                 </div>
-                <div className="flex gap-4">
+                <div className="flex gap-4 mt-6">
                     <button onClick={()=>setConfirmData(null)} className="flex-1 py-3 text-slate-500 font-bold hover:bg-slate-100 rounded-xl transition-colors">取消</button>
-                    <button onClick={executeImport} disabled={loading} className="flex-1 py-3 bg-blue-600 text-white font-bold rounded-xl shadow-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2">
+                    <button onClick={executeImport} disabled={loading || confirmData.steps.every(step => step.count === 0)} className="flex-1 py-3 bg-blue-600 text-white font-bold rounded-xl shadow-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50">
                         {loading ? <RefreshCw className="animate-spin"/> : <CheckCircle/>} 確認匯入
                     </button>
                 </div>
@@ -692,95 +1704,860 @@ const UploadView = ({ user }: { user: User }) => {
          </div>
        )}
 
-       <div className="bg-slate-50 p-8 rounded-2xl border-2 border-dashed border-slate-300 relative group hover:border-blue-400 transition-colors">
-          <div className="flex justify-between items-start mb-6">
-             <div className="flex items-center gap-4"><div className="bg-blue-100 p-3 rounded-xl text-blue-600"><Briefcase size={28}/></div><h3 className="text-2xl font-bold text-slate-700">1. 匯入製令明細 (WO Details)</h3></div>
-             <button onClick={() => downloadTemplate('wo')} className="text-blue-600 hover:text-blue-800 font-bold flex items-center gap-2"><Download size={20}/> 下載範例</button>
-          </div>
-          <p className="text-slate-500 mb-8 pl-14 text-base">建立工單骨架 (機種、外包、生產日)。若工單已存在則更新資訊。</p>
-          <div className="pl-14">
-             <label className="cursor-pointer bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-8 rounded-xl shadow-md transition-all inline-flex items-center gap-3">
-               <UploadCloud size={24}/> 選擇 Excel 檔案
-               <input type="file" className="hidden" accept=".xlsx,.xls" onChange={e => handleFileSelect(e, 'wo')} />
-             </label>
-          </div>
-       </div>
+       {canImport && (<>
+         <div className="bg-slate-50 p-8 rounded-2xl border-2 border-dashed border-slate-300 relative group hover:border-blue-400 transition-colors">
+            <div className="flex justify-between items-start mb-6">
+               <div className="flex items-center gap-4"><div className="bg-blue-100 p-3 rounded-xl text-blue-600"><Briefcase size={28}/></div><h3 className="text-2xl font-bold text-slate-700">1. 匯入製令明細 (WO Details)</h3></div>
+               <button onClick={() => downloadTemplate('wo')} className="text-blue-600 hover:text-blue-800 font-bold flex items-center gap-2"><Download size={20}/> 下載範例</button>
+            </div>
+            <p className="text-slate-500 mb-8 pl-14 text-base">建立工單骨架 (機種、外包、生產日)。若工單已存在則更新資訊。</p>
+            <div className="pl-14">
+               <label className="cursor-pointer bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-8 rounded-xl shadow-md transition-all inline-flex items-center gap-3">
+                 <UploadCloud size={24}/> 選擇 Excel / CSV 檔案
+                 <input type="file" className="hidden" accept=".xlsx,.xls,.csv" onChange={e => handleFileSelect(e, ['wo'])} />
+               </label>
+            </div>
+         </div>
+
+         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+             <div className="bg-slate-50 p-8 rounded-2xl border-2 border-dashed border-slate-300 relative group hover:border-red-400 transition-colors">
+                <div className="flex justify-between items-start mb-6">
+                   <div className="flex items-center gap-4"><div className="bg-red-100 p-3 rounded-xl text-red-600"><AlertCircle size={28}/></div><h3 className="text-xl font-bold text-slate-700">2. 匯入欠料表 (完整取代)</h3></div>
+                </div>
+                <p className="text-slate-500 mb-8 pl-14 text-base">注意：會清除該工單所有舊欠料，重新寫入。仍在新表中的料號會保留採購回覆。</p>
+                <div className="pl-14">
+                   <label className="cursor-pointer bg-red-600 hover:bg-red-700 text-white font-bold py-4 px-8 rounded-xl shadow-md transition-all inline-flex items-center gap-3">
+                     <UploadCloud size={24}/> 覆蓋匯入
+                     <input type="file" className="hidden" accept=".xlsx,.xls,.csv" onChange={e => handleFileSelect(e, ['shortage'])} />
+                   </label>
+                </div>
+             </div>
 
-       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-           <div className="bg-slate-50 p-8 rounded-2xl border-2 border-dashed border-slate-300 relative group hover:border-red-400 transition-colors">
-              <div className="flex justify-between items-start mb-6">
-                 <div className="flex items-center gap-4"><div className="bg-red-100 p-3 rounded-xl text-red-600"><AlertCircle size={28}/></div><h3 className="text-xl font-bold text-slate-700">2. 匯入欠料表 (完整取代)</h3></div>
+             <div className="bg-slate-50 p-8 rounded-2xl border-2 border-dashed border-slate-300 relative group hover:border-green-400 transition-colors">
+                <div className="flex justify-between items-start mb-6">
+                   <div className="flex items-center gap-4"><div className="bg-green-100 p-3 rounded-xl text-green-600"><RefreshCw size={28}/></div><h3 className="text-xl font-bold text-slate-700">3. 更新欠料表 (保留回覆)</h3></div>
+                </div>
+                <p className="text-slate-500 mb-8 pl-14 text-base">安全模式：更新欠料數量，保留採購回覆與備註。</p>
+                <div className="pl-14">
+                   <label className="cursor-pointer bg-green-600 hover:bg-green-700 text-white font-bold py-4 px-8 rounded-xl shadow-md transition-all inline-flex items-center gap-3">
+                     <UploadCloud size={24}/> 更新匯入
+                     <input type="file" className="hidden" accept=".xlsx,.xls,.csv" onChange={e => handleFileSelect(e, ['merge'])} />
+                   </label>
+                </div>
+             </div>
+         </div>
+         <div className="bg-slate-50 p-8 rounded-2xl border-2 border-dashed border-slate-300 relative group hover:border-purple-400 transition-colors">
+            <div className="flex justify-between items-start mb-6">
+               <div className="flex items-center gap-4"><div className="bg-purple-100 p-3 rounded-xl text-purple-600"><Layers size={28}/></div><h3 className="text-xl font-bold text-slate-700">4. 同一活頁簿匯入製令明細 + 欠料表</h3></div>
+            </div>
+            <p className="text-slate-500 mb-8 pl-14 text-base">活頁簿內有製令明細與欠料表兩個工作表時，可一次完成：先更新製令明細，再匯入欠料表。</p>
+            <div className="pl-14 flex flex-wrap items-center gap-4">
+               <select className="border border-slate-300 rounded-xl p-4 text-base bg-white font-bold text-slate-600 outline-none" value={workbookMode} onChange={e => setWorkbookMode(e.target.value as 'merge' | 'shortage')}>
+                 <option value="merge">欠料表: 更新數量 (保留回覆)</option>
+                 <option value="shortage">欠料表: 完整取代</option>
+               </select>
+               <label className="cursor-pointer bg-purple-600 hover:bg-purple-700 text-white font-bold py-4 px-8 rounded-xl shadow-md transition-all inline-flex items-center gap-3">
+                 <UploadCloud size={24}/> 選擇活頁簿
+                 <input type="file" className="hidden" accept=".xlsx,.xls" onChange={e => handleFileSelect(e, ['wo', workbookMode])} />
+               </label>
+            </div>
+         </div>
+         <div className="text-right"><button onClick={() => downloadTemplate('shortage')} className="text-slate-400 hover:text-blue-600 font-bold inline-flex items-center gap-2"><Download size={16}/> 下載欠料表範例</button></div>
+       </>)}
+
+       {canEditReply && (
+         <div className="bg-slate-50 p-8 rounded-2xl border-2 border-dashed border-slate-300 relative group hover:border-teal-400 transition-colors">
+            <div className="flex justify-between items-start mb-6">
+               <div className="flex items-center gap-4"><div className="bg-teal-100 p-3 rounded-xl text-teal-600"><Calendar size={28}/></div><h3 className="text-xl font-bold text-slate-700">{canImport ? '5. ' : ''}匯入採購回覆交期</h3></div>
+               <button onClick={() => downloadTemplate('replies')} className="text-teal-600 hover:text-teal-800 font-bold flex items-center gap-2"><Download size={20}/> 下載範例</button>
+            </div>
+            <p className="text-slate-500 mb-8 pl-14 text-base">依「工單號碼 + 料號」(或供應商報表的列編號) 對應欠料，更新回覆交期與備註。空白的儲存格不會覆蓋現有資料；檔案存檔後才在系統內修改的回覆會保留，並列在匯入結果中。</p>
+            <div className="pl-14">
+               <label className="cursor-pointer bg-teal-600 hover:bg-teal-700 text-white font-bold py-4 px-8 rounded-xl shadow-md transition-all inline-flex items-center gap-3">
+                 <UploadCloud size={24}/> 選擇 Excel / CSV 檔案
+                 <input type="file" className="hidden" accept=".xlsx,.xls,.csv" onChange={e => handleFileSelect(e, ['replies'])} />
+               </label>
+            </div>
+         </div>
+       )}
+
+
+       {canImport && (
+         <div>
+            <h3 className="text-2xl font-bold text-slate-700 mb-4 flex items-center gap-3"><History size={24}/> 最近匯入批次</h3>
+            {batches.length === 0 ? (
+              <p className="text-slate-400 font-medium">尚無匯入紀錄</p>
+            ) : (
+              <div className="border border-slate-200 rounded-2xl divide-y divide-slate-100 overflow-hidden">
+                {batches.map(b => (
+                  <div key={b.id} className={`flex items-center gap-6 p-5 ${b.rolledBackAt ? 'bg-slate-50 text-slate-400' : 'bg-white'}`}>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-bold text-slate-700 truncate">{b.label || b.id} <span className="ml-2 text-sm font-medium text-slate-400">{IMPORT_KIND_LABELS[b.kind]}</span></div>
+                      <div className="text-sm text-slate-500">{b.actor} · {new Date(b.timestamp).toLocaleString()} · {b.rowCount} 筆 / {b.workOrders.split(',').length} 張工單</div>
+                      {b.rolledBackAt && <div className="text-sm text-orange-600 font-bold">已由 {b.rolledBackBy} 於 {new Date(b.rolledBackAt).toLocaleString()} 復原</div>}
+                    </div>
+                    {b.canRollback && (
+                      <button onClick={() => handleRollback(b)} disabled={loading} className="px-5 py-3 bg-white border-2 border-slate-200 rounded-xl font-bold text-slate-600 hover:border-orange-400 hover:text-orange-600 transition-all flex items-center gap-2 active:scale-95"><RotateCcw size={18}/> 復原</button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+         </div>
+       )}
+    </div>
+  );
+};
+
+const ERPCompareView = () => {
+  const [uploads, setUploads] = useState<ImportBatch[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [comparison, setComparison] = useState<ERPUploadComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [uploadsError, setUploadsError] = useState('');
+  const [compareError, setCompareError] = useState('');
+
+  const loadUploads = () => {
+    setUploadsError('');
+    sheetService.listImportBatches(50).then(list => {
+      const shortageUploads = list.filter(b => b.kind !== 'woDetails');
+      setUploads(shortageUploads);
+      // A rolled-back upload keeps its raw lines, but it is no longer what ERP reported; compare the live ones by default
+      const live = shortageUploads.filter(b => !b.rolledBackAt);
+      if (live.length >= 2) {
+        setToId(live[0].id);
+        setFromId(live[1].id);
+      }
+    }, (err: any) => setUploadsError(err?.message || '無法載入上傳紀錄'));
+  };
+  useEffect(loadUploads, []);
+
+  useEffect(() => {
+    if (!fromId || !toId) return;
+    setLoading(true);
+    setCompareError('');
+    sheetService.compareERPUploads(fromId, toId)
+      .then(setComparison, (err: any) => {
+        setComparison(null);
+        setCompareError(err?.message || '比較失敗');
+      })
+      .finally(() => setLoading(false));
+  }, [fromId, toId]);
+
+  const uploadLabel = (b: ImportBatch) => `${new Date(b.timestamp).toLocaleString()} · ${b.label || b.id} (${b.actor})${b.rolledBackAt ? ' [已復原]' : ''}`;
+  const lines = comparison ? [
+    ...comparison.appeared.map(l => ({ kind: 'appeared' as const, line: l })),
+    ...comparison.qtyChanged.map(l => ({ kind: 'qty' as const, line: l })),
+    ...comparison.disappeared.map(l => ({ kind: 'disappeared' as const, line: l })),
+  ] : [];
+  const kindLabel = { appeared: ['新增欠料', 'bg-red-100 text-red-700'], qty: ['數量變更', 'bg-yellow-100 text-yellow-800'], disappeared: ['已消失', 'bg-green-100 text-green-700'] };
+
+  return (
+    <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm max-w-6xl mx-auto space-y-8">
+      <div>
+        <h2 className="text-3xl font-extrabold text-slate-800 mb-4 flex items-center gap-4"><ArrowLeftRight size={32} className="text-blue-600"/> ERP 欠料上傳比較</h2>
+        <p className="text-slate-500 text-lg">比較兩次欠料表上傳的原始資料，查看 ERP 欠料的週間變化 (不受採購回覆影響)。已復原的上傳標示為 [已復原]，不會預設選取。</p>
+      </div>
+      {uploadsError ? (
+        <div className="flex flex-col items-center gap-4 py-16">
+          <p className="text-red-600 font-bold flex items-center gap-2"><AlertCircle size={20}/> {uploadsError}</p>
+          <button onClick={loadUploads} className="px-6 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-2 font-bold text-slate-700 border border-slate-200"><RefreshCw size={18}/> 重試</button>
+        </div>
+      ) : uploads.length < 2 ? (
+        <p className="text-slate-400 font-bold text-center py-16">至少需要兩次欠料表上傳才能比較</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <div><label className="text-base font-bold text-slate-600 mb-3 block">較舊的上傳 (From)</label><select className="w-full border border-slate-300 rounded-xl p-4 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={fromId} onChange={e=>setFromId(e.target.value)}><option value="" disabled>請選擇上傳</option>{uploads.map(b => <option key={b.id} value={b.id}>{uploadLabel(b)}</option>)}</select></div>
+            <div><label className="text-base font-bold text-slate-600 mb-3 block">較新的上傳 (To)</label><select className="w-full border border-slate-300 rounded-xl p-4 text-base bg-slate-50 focus:ring-2 focus:ring-blue-100 outline-none" value={toId} onChange={e=>setToId(e.target.value)}><option value="" disabled>請選擇上傳</option>{uploads.map(b => <option key={b.id} value={b.id}>{uploadLabel(b)}</option>)}</select></div>
+          </div>
+          {loading && <div className="flex justify-center py-10"><RefreshCw className="animate-spin text-slate-400" size={32}/></div>}
+          {!loading && compareError && <p className="text-red-600 font-bold text-center py-10 flex items-center justify-center gap-2"><AlertCircle size={20}/> {compareError}</p>}
+          {!loading && comparison && (
+            <>
+              <div className="flex flex-wrap gap-3 text-sm font-bold">
+                <span className="bg-red-100 text-red-700 px-3 py-1 rounded-lg">新增欠料 {comparison.appeared.length}</span>
+                <span className="bg-yellow-100 text-yellow-800 px-3 py-1 rounded-lg">數量變更 {comparison.qtyChanged.length}</span>
+                <span className="bg-green-100 text-green-700 px-3 py-1 rounded-lg">已消失 {comparison.disappeared.length}</span>
+                <span className="bg-slate-100 text-slate-600 px-3 py-1 rounded-lg">未變動 {comparison.unchanged}</span>
               </div>
-              <p className="text-slate-500 mb-8 pl-14 text-base">注意：會清除該工單所有舊欠料，重新寫入。</p>
-              <div className="pl-14">
-                 <label className="cursor-pointer bg-red-600 hover:bg-red-700 text-white font-bold py-4 px-8 rounded-xl shadow-md transition-all inline-flex items-center gap-3">
-                   <UploadCloud size={24}/> 覆蓋匯入
-                   <input type="file" className="hidden" accept=".xlsx,.xls" onChange={e => handleFileSelect(e, 'shortage')} />
-                 </label>
+              <div className="overflow-auto custom-scrollbar border border-slate-200 rounded-xl max-h-[60vh]">
+                <table className="w-full text-left text-sm">
+                  <thead className="bg-slate-100 text-slate-600 font-bold sticky top-0">
+                    <tr><th className="p-3">變化</th><th className="p-3">工單</th><th className="p-3">料號</th><th className="p-3">品名</th><th className="p-3 text-right">原數量</th><th className="p-3 text-right">新數量</th></tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {lines.map(({ kind, line }) => (
+                      <tr key={`${kind}-${line.workOrder}-${line.partNumber}`}>
+                        <td className="p-3"><span className={`px-2 py-1 rounded-md font-bold text-xs ${kindLabel[kind][1]}`}>{kindLabel[kind][0]}</span></td>
+                        <td className="p-3 font-mono">{line.workOrder}</td>
+                        <td className="p-3 font-mono">{line.partNumber}</td>
+                        <td className="p-3">{line.partName}</td>
+                        <td className="p-3 text-right font-mono">{line.oldQty ?? '-'}</td>
+                        <td className="p-3 text-right font-mono">{line.newQty ?? '-'}</td>
+                      </tr>
+                    ))}
+                    {lines.length === 0 && <tr><td colSpan={6} className="p-6 text-center text-slate-400 font-bold">兩次上傳內容相同</td></tr>}
+                  </tbody>
+                </table>
               </div>
-           </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+// --- DASHBOARD (material-readiness KPIs for management) ---
+
+const DASHBOARD_TOP_GROUPS = 10;
 
-           <div className="bg-slate-50 p-8 rounded-2xl border-2 border-dashed border-slate-300 relative group hover:border-green-400 transition-colors">
-              <div className="flex justify-between items-start mb-6">
-                 <div className="flex items-center gap-4"><div className="bg-green-100 p-3 rounded-xl text-green-600"><RefreshCw size={28}/></div><h3 className="text-xl font-bold text-slate-700">3. 更新欠料表 (保留回覆)</h3></div>
+const ShortageGroupChart = ({ title, groups }: { title: string, groups: ShortageGroupStat[] }) => {
+  const top = groups.slice(0, DASHBOARD_TOP_GROUPS);
+  const max = Math.max(1, ...top.map(g => g.open));
+  return (
+    <div className="border border-slate-200 rounded-2xl p-6">
+      <h3 className="text-xl font-extrabold text-slate-800 mb-4">{title}</h3>
+      {top.length === 0 ? <p className="text-slate-400 font-bold py-6 text-center">沒有未齊料的欠料</p> : (
+        <div className="space-y-3">
+          {top.map(g => (
+            <div key={g.name} className="flex items-center gap-3">
+              <span className="w-36 truncate font-bold text-slate-700" title={g.name}>{g.name}</span>
+              <div className="flex-1 h-6 bg-slate-100 rounded-lg overflow-hidden flex">
+                <div className="h-full bg-red-400" style={{ width: `${(g.late / max) * 100}%` }} title={`延遲 ${g.late}`}></div>
+                <div className="h-full bg-blue-400" style={{ width: `${((g.open - g.late) / max) * 100}%` }}></div>
               </div>
-              <p className="text-slate-500 mb-8 pl-14 text-base">安全模式：更新欠料數量，保留採購回覆與備註。</p>
-              <div className="pl-14">
-                 <label className="cursor-pointer bg-green-600 hover:bg-green-700 text-white font-bold py-4 px-8 rounded-xl shadow-md transition-all inline-flex items-center gap-3">
-                   <UploadCloud size={24}/> 更新匯入
-                   <input type="file" className="hidden" accept=".xlsx,.xls" onChange={e => handleFileSelect(e, 'merge')} />
-                 </label>
+              <span className="w-20 text-right font-mono font-bold text-slate-700">{g.open}{g.late > 0 && <span className="text-red-600"> ({g.late})</span>}</span>
+            </div>
+          ))}
+          {groups.length > top.length && <p className="text-sm text-slate-400 text-right">另有 {groups.length - top.length} 家未列出</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DashboardView = () => {
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchStats = async () => {
+    try {
+      setStats(await sheetService.getDashboardStats());
+      setError('');
+    } catch (err: any) {
+      setError(err?.message || '無法載入統計資料');
+    }
+  };
+  const fetchStatsRef = useRef(fetchStats);
+  fetchStatsRef.current = fetchStats;
+
+  useEffect(() => {
+    fetchStats();
+    return sheetService.subscribe(() => fetchStatsRef.current());
+  }, []);
+
+  if (!stats && error) return (
+    <div className="flex flex-col items-center gap-4 py-16 text-red-600">
+      <div className="flex items-center gap-2 font-bold text-lg"><AlertCircle size={24}/> {error}</div>
+      <button onClick={fetchStats} className="px-6 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-2 font-bold text-slate-700 border border-slate-200"><RefreshCw size={18}/> 重試</button>
+    </div>
+  );
+  if (!stats) return <div className="flex justify-center py-16"><RefreshCw className="animate-spin text-slate-400" size={32}/></div>;
+
+  const weekMax = Math.max(1, ...stats.weeklyReadiness.map(w => w.total));
+  const kpi = (label: string, value: string, hint: string, tone: string) => (
+    <div className={`rounded-2xl border p-6 ${tone}`}>
+      <div className="text-sm font-bold uppercase opacity-70">{label}</div>
+      <div className="text-4xl font-extrabold mt-2">{value}</div>
+      <div className="text-sm mt-1 opacity-70">{hint}</div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm space-y-8">
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-extrabold text-slate-800 mb-4 flex items-center gap-4"><BarChart3 size={32} className="text-blue-600"/> 齊料儀表板</h2>
+          <p className="text-slate-500 text-lg">統計所有進行中 (未移至歷史完工) 的欠料。</p>
+          {error && <p className="text-red-600 font-bold mt-2 flex items-center gap-2"><AlertCircle size={18}/> 更新失敗：{error}</p>}
+        </div>
+        <button onClick={fetchStats} className="px-6 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-2 font-bold text-slate-700 border border-slate-200"><RefreshCw size={18}/> 刷新</button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-6">
+        {kpi('未齊料欠料', String(stats.openLines), '數量 > 0 且尚未齊料', 'bg-blue-50 border-blue-200 text-blue-900')}
+        {kpi('延遲', String(stats.lateLines), '回覆晚於生產日或逾期未回覆', stats.lateLines > 0 ? 'bg-red-50 border-red-200 text-red-900' : 'bg-green-50 border-green-200 text-green-900')}
+        {kpi('採購回覆率', `${Math.round(stats.replyRate * 100)}%`, `${stats.repliedLines} / ${stats.openLines} 項已回覆交期`, 'bg-slate-50 border-slate-200 text-slate-800')}
+        {kpi('平均回覆提前天數', stats.avgReplyLeadDays === null ? '-' : `${stats.avgReplyLeadDays} 天`, '回覆交期距需求日，負數表示晚於需求', stats.avgReplyLeadDays !== null && stats.avgReplyLeadDays < 0 ? 'bg-red-50 border-red-200 text-red-900' : 'bg-slate-50 border-slate-200 text-slate-800')}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <ShortageGroupChart title="未齊料 - 依供應商" groups={stats.bySupplier} />
+        <ShortageGroupChart title="未齊料 - 依外包廠" groups={stats.byVendor} />
+      </div>
+
+      <div className="border border-slate-200 rounded-2xl p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <h3 className="text-xl font-extrabold text-slate-800">每週齊料趨勢 (依客驗/出貨日)</h3>
+          <div className="flex items-center gap-4 text-sm font-bold text-slate-500">
+            <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-green-500"></span>已齊料</span>
+            <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-blue-400"></span>已確認</span>
+            <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-red-400"></span>延遲</span>
+            <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-slate-300"></span>待回覆</span>
+          </div>
+        </div>
+        <div className="flex items-end gap-3 h-64 overflow-x-auto custom-scrollbar pb-2">
+          {stats.weeklyReadiness.map(w => {
+            const pending = w.total - w.ready - w.confirmed - w.late;
+            const pct = (n: number) => `${(n / weekMax) * 100}%`;
+            return (
+              <div key={w.weekStart} className="flex-1 min-w-[48px] h-full flex flex-col items-center justify-end" title={`${w.weekStart} 起: 共 ${w.total} 項，已齊料 ${w.ready}、已確認 ${w.confirmed}、延遲 ${w.late}、待回覆 ${pending}`}>
+                <span className="text-xs font-bold text-slate-600 mb-1">{w.total === 0 ? '' : `${Math.round((w.ready / w.total) * 100)}%`}</span>
+                <div className="w-full flex flex-col-reverse rounded-t-lg overflow-hidden" style={{ height: pct(w.total) }}>
+                  <div className="bg-green-500" style={{ height: `${(w.ready / Math.max(1, w.total)) * 100}%` }}></div>
+                  <div className="bg-blue-400" style={{ height: `${(w.confirmed / Math.max(1, w.total)) * 100}%` }}></div>
+                  <div className="bg-red-400" style={{ height: `${(w.late / Math.max(1, w.total)) * 100}%` }}></div>
+                  <div className="bg-slate-300" style={{ height: `${(pending / Math.max(1, w.total)) * 100}%` }}></div>
+                </div>
+                <span className="text-xs font-mono text-slate-500 mt-2">{w.weekStart.substring(5).replace('-', '/')}</span>
               </div>
-           </div>
-       </div>
-       <div className="text-right"><button onClick={() => downloadTemplate('shortage')} className="text-slate-400 hover:text-blue-600 font-bold inline-flex items-center gap-2"><Download size={16}/> 下載欠料表範例</button></div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- TIMELINE (stages, OQC milestones and purchaser replies on a day axis) ---
+
+const TIMELINE_DAY_WIDTH = 32;
+const TIMELINE_ROW_HEIGHT = 36;
+const TIMELINE_LABEL_WIDTH = 260;
+const TIMELINE_STAGE_COLORS: Record<string, string> = {
+  SMT: 'bg-blue-300 border-blue-500 text-blue-900',
+  Assembly: 'bg-indigo-300 border-indigo-500 text-indigo-900',
+  Packing: 'bg-teal-300 border-teal-500 text-teal-900',
+};
+
+const TimelineView = ({ user }: { user: User }) => {
+  const canEditOqc = can(user, 'editOqcDate');
+  const [rows, setRows] = useState<TrackingRow[]>([]);
+  const [vendors, setVendors] = useState<string[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [vendorFilter, setVendorFilter] = useState('All');
+  const [lateOnly, setLateOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  // OQC milestone being dragged (`${workOrder}:${stage}`) and how many days it has moved so far
+  const [drag, setDrag] = useState<{ key: string, days: number } | null>(null);
+
+  // Every matching row: a lane with only some of its lines would show the wrong readiness
+  const loadAllRows = async () => {
+    const allRows: TrackingRow[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await sheetService.queryTracking({
+        filter: { archived: false, text: searchTerm || undefined, vendor: vendorFilter !== 'All' ? vendorFilter : undefined },
+        sort: { field: 'productionDate', direction: 'asc' },
+        limit: MAX_PAGE_SIZE,
+        cursor,
+      });
+      allRows.push(...page.rows);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return allRows;
+  };
+
+  // Also the reload after a drag, so a failure here is shown rather than thrown
+  const fetchRows = async () => {
+    try {
+      const [allRows, facets] = await Promise.all([loadAllRows(), sheetService.getTrackingFacets(false)]);
+      setRows(allRows);
+      setVendors(facets.vendors);
+      setError('');
+    } catch (err: any) {
+      setError(err?.message || '無法載入時間軸');
+    }
+    setLoading(false);
+  };
+  const fetchRowsRef = useRef(fetchRows);
+  fetchRowsRef.current = fetchRows;
+
+  useEffect(() => {
+    const timer = setTimeout(fetchRows, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm, vendorFilter]);
+  useEffect(() => sheetService.subscribe(() => fetchRowsRef.current()), []);
+
+  const timeline = useMemo(() => buildTimeline(rows), [rows]);
+  const lanes = lateOnly ? timeline.lanes.filter(l => l.lateCount > 0) : timeline.lanes;
+  const days = useMemo(() => Array.from({ length: daysBetween(timeline.start, timeline.end) + 1 }, (_, i) => addDays(timeline.start, i)), [timeline]);
+  const today = localIsoDate();
+  const x = (date: string) => daysBetween(timeline.start, date) * TIMELINE_DAY_WIDTH;
+
+  // Drag the OQC diamond sideways; it snaps to whole days and saves on release
+  const handleMilestoneDrag = (e: React.MouseEvent, lane: TimelineLane, stage: TimelineStage) => {
+    e.preventDefault();
+    const key = `${lane.workOrder}:${stage.stage}`;
+    const startX = e.pageX;
+    let moved = 0;
+    const onMouseMove = (moveEvent: MouseEvent) => {
+      moved = Math.round((moveEvent.pageX - startX) / TIMELINE_DAY_WIDTH);
+      setDrag({ key, days: moved });
+    };
+    const onMouseUp = async () => {
+      document.removeEventListener('mousemove', onMouseMove);
+      document.removeEventListener('mouseup', onMouseUp);
+      document.body.style.cursor = 'default';
+      if (moved === 0) { setDrag(null); return; }
+      const newDate = addDays(stage.oqcDate, moved);
+      setRows(prev => prev.map(r => r.workOrder === lane.workOrder && r.stage === stage.stage ? { ...r, oqcDate: newDate } : r));
+      setDrag(null);
+      try {
+        await sheetService.updateStageDate(lane.workOrder, stage.stage, 'oqcDate', newDate, stage.version);
+      } catch (err: any) {
+        if (err instanceof ConflictError) alert(`${lane.workOrder} / ${stage.stage} 的客驗/出貨日剛被其他人改為 ${err.current.oqcDate || '(空白)'}，已重新載入`);
+        else alert(err?.message || '儲存失敗');
+      }
+      await fetchRowsRef.current();
+    };
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('mouseup', onMouseUp);
+    document.body.style.cursor = 'grabbing';
+  };
+
+  // The stage as drawn: while dragging, the OQC date (and the bar end with it) follows the mouse
+  const shown = (lane: TimelineLane, stage: TimelineStage): TimelineStage => {
+    if (!drag || drag.key !== `${lane.workOrder}:${stage.stage}`) return stage;
+    const oqcDate = addDays(stage.oqcDate, drag.days);
+    const start = stage.productionDate || oqcDate;
+    return { ...stage, oqcDate, start, end: oqcDate > start ? oqcDate : start };
+  };
+
+  const width = TIMELINE_LABEL_WIDTH + days.length * TIMELINE_DAY_WIDTH;
+
+  return (
+    <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm space-y-8">
+      <div className="flex flex-col xl:flex-row xl:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-extrabold text-slate-800 mb-4 flex items-center gap-4"><GanttChart size={32} className="text-blue-600"/> 生產時間軸</h2>
+          <p className="text-slate-500 text-lg">每列一張工單，長條從生產日排到客驗/出貨日。{canEditOqc && '拖曳 ◆ 可調整客驗/出貨日。'}</p>
+          {error && rows.length > 0 && <p className="text-red-600 font-bold mt-2 flex items-center gap-2"><AlertCircle size={18}/> 更新失敗：{error}</p>}
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="relative">
+            <Search className="absolute left-4 top-3.5 text-slate-400" size={20}/>
+            <input className="pl-12 border border-slate-300 rounded-xl py-3 w-64 outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500" placeholder="搜尋機種、工單、料號..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)}/>
+          </div>
+          <select className="border border-slate-300 rounded-xl px-4 py-3 bg-white font-medium text-slate-700 outline-none" value={vendorFilter} onChange={e => setVendorFilter(e.target.value)}>
+            <option value="All">全部外包廠商</option>
+            {vendors.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+          <label className="flex items-center gap-2 font-bold text-slate-600 cursor-pointer"><input type="checkbox" className="w-5 h-5 accent-red-600" checked={lateOnly} onChange={e => setLateOnly(e.target.checked)}/> 只看回覆晚於生產日</label>
+          <button onClick={fetchRows} className="px-6 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-2 font-bold text-slate-700 border border-slate-200"><RefreshCw size={18}/> 刷新</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6 text-sm font-bold text-slate-500">
+        {TIMELINE_STAGES.map(s => <span key={s} className="flex items-center gap-2"><span className={`inline-block w-8 h-3 rounded border ${TIMELINE_STAGE_COLORS[s]}`}></span>{s}</span>)}
+        <span className="flex items-center gap-2"><span className="inline-block w-3 h-3 rotate-45 bg-amber-500 border border-amber-700"></span>客驗/出貨日</span>
+        <span className="flex items-center gap-2"><span className="inline-block w-3 h-3 rounded-full bg-green-500"></span>採購回覆</span>
+        <span className="flex items-center gap-2"><span className="inline-block w-3 h-3 rounded-full bg-red-500 ring-2 ring-red-200"></span>回覆晚於生產日</span>
+        <span className="flex items-center gap-2"><span className="inline-block w-0.5 h-4 bg-red-400"></span>今天</span>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16"><RefreshCw className="animate-spin text-slate-400" size={32}/></div>
+      ) : error && rows.length === 0 ? (
+        <div className="flex flex-col items-center gap-4 py-16 text-red-600">
+          <div className="flex items-center gap-2 font-bold text-lg"><AlertCircle size={24}/> {error}</div>
+          <button onClick={fetchRows} className="px-6 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-2 font-bold text-slate-700 border border-slate-200"><RefreshCw size={18}/> 重試</button>
+        </div>
+      ) : lanes.length === 0 ? (
+        <p className="text-slate-400 font-bold text-center py-16 text-xl">沒有符合條件的工單</p>
+      ) : (
+        <div className="overflow-auto custom-scrollbar border border-slate-200 rounded-xl max-h-[70vh]">
+          <div className="relative" style={{ width }}>
+            <div className="flex sticky top-0 z-20 bg-slate-100 border-b border-slate-200 text-slate-600">
+              <div className="sticky left-0 z-10 bg-slate-100 p-3 font-bold border-r border-slate-200 shrink-0" style={{ width: TIMELINE_LABEL_WIDTH }}>工單 / 機種</div>
+              {days.map((d, i) => {
+                const weekend = [0, 6].includes(new Date(d).getUTCDay());
+                return (
+                  <div key={d} className={`shrink-0 text-center text-xs border-r border-slate-200 py-1 ${weekend ? 'bg-slate-200/70' : ''} ${d === today ? 'text-red-600 font-extrabold' : ''}`} style={{ width: TIMELINE_DAY_WIDTH }}>
+                    <div className="font-bold h-4">{i === 0 || d.endsWith('-01') ? `${Number(d.substring(5, 7))}月` : ''}</div>
+                    <div className="font-mono">{Number(d.substring(8))}</div>
+                  </div>
+                );
+              })}
+            </div>
+            {today >= timeline.start && today <= timeline.end && (
+              <div className="absolute top-0 bottom-0 w-0.5 bg-red-400/70 z-0 pointer-events-none" style={{ left: TIMELINE_LABEL_WIDTH + x(today) + TIMELINE_DAY_WIDTH / 2 }}></div>
+            )}
+            {lanes.map(lane => (
+              <div key={lane.workOrder} className="flex border-b border-slate-100 hover:bg-blue-50/30">
+                <div className="sticky left-0 z-10 bg-white p-3 border-r border-slate-200 shrink-0" style={{ width: TIMELINE_LABEL_WIDTH }}>
+                  <div className="font-mono font-bold text-blue-800">{lane.workOrder}</div>
+                  <div className="text-sm text-slate-600 font-bold truncate">{lane.model}</div>
+                  <div className="text-xs text-slate-400 truncate">{lane.vendor}</div>
+                  {lane.lateCount > 0 && <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-bold bg-red-100 text-red-700 border border-red-200">{lane.lateCount} 項回覆晚於生產日</span>}
+                </div>
+                <div className="relative shrink-0" style={{ width: days.length * TIMELINE_DAY_WIDTH, height: Math.max(1, lane.stages.length) * TIMELINE_ROW_HEIGHT + 16 }}>
+                  {lane.stages.map((original, i) => {
+                    const stage = shown(lane, original);
+                    const top = 8 + i * TIMELINE_ROW_HEIGHT;
+                    if (!stage.start) {
+                      return <div key={stage.stage} className="absolute left-2 text-xs font-bold text-slate-400" style={{ top: top + 8 }}>{stage.stage} 未排程</div>;
+                    }
+                    return (
+                      <React.Fragment key={stage.stage}>
+                        <div className={`absolute rounded-md border text-xs font-bold px-2 flex items-center overflow-hidden whitespace-nowrap ${TIMELINE_STAGE_COLORS[stage.stage] || 'bg-slate-300 border-slate-500'} ${stage.lateCount > 0 ? 'ring-2 ring-red-400' : ''}`}
+                          style={{ left: x(stage.start), width: (daysBetween(stage.start, stage.end) + 1) * TIMELINE_DAY_WIDTH, top: top + 4, height: TIMELINE_ROW_HEIGHT - 12 }}
+                          title={`${stage.stage} 生產日 ${stage.productionDate || '-'} / 客驗 ${stage.oqcDate || '-'}`}>
+                          {stage.stage}
+                        </div>
+                        {stage.replies.map(r => (
+                          <div key={r.rowId} className={`absolute w-3 h-3 rounded-full border border-white z-10 ${r.isLate ? 'bg-red-500 ring-2 ring-red-200' : 'bg-green-500'}`}
+                            style={{ left: x(r.date) + TIMELINE_DAY_WIDTH / 2 - 6, top: top + TIMELINE_ROW_HEIGHT / 2 - 8 }}
+                            title={`${r.partNumber} (${r.supplier}) 回覆 ${r.date}${r.needDate ? `，需求 ${r.needDate}` : ''}`}></div>
+                        ))}
+                        {stage.oqcDate && (
+                          <div onMouseDown={canEditOqc ? e => handleMilestoneDrag(e, lane, original) : undefined}
+                            className={`absolute w-4 h-4 rotate-45 bg-amber-500 border-2 border-amber-700 z-10 ${canEditOqc ? 'cursor-grab hover:scale-125 transition-transform' : ''}`}
+                            style={{ left: x(stage.oqcDate) + TIMELINE_DAY_WIDTH / 2 - 8, top: top + TIMELINE_ROW_HEIGHT / 2 - 10 }}
+                            title={`${stage.stage} 客驗/出貨日 ${stage.oqcDate}`}></div>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- MY SHORTAGES (a purchaser's open, unanswered lines) ---
+
+const MyShortagesView = ({ user }: { user: User }) => {
+  const [rows, setRows] = useState<TrackingRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchRows = async () => {
+    try {
+      const page = await sheetService.queryTracking({
+        filter: { purchaser: user.username, unanswered: true, archived: false },
+        sort: { field: 'productionDate', direction: 'asc' },
+        limit: MAX_PAGE_SIZE,
+      });
+      setRows(page.rows);
+      setTotal(page.total);
+      setError('');
+    } catch (err: any) {
+      setError(err?.message || '無法載入欠料');
+    }
+    setLoading(false);
+  };
+  const fetchRowsRef = useRef(fetchRows);
+  fetchRowsRef.current = fetchRows;
+
+  useEffect(() => {
+    fetchRows();
+    return sheetService.subscribe(() => fetchRowsRef.current());
+  }, []);
+
+  // Answered lines drop off the list on the next load
+  const save = async (row: TrackingRow, updates: Partial<TrackingRow>) => {
+    setRows(prev => prev.map(r => r.id === row.id ? { ...r, ...updates } : r));
+    try {
+      if ('purchaserReplyDate' in updates) await sheetService.updateDeliveryDate(row.id, updates.purchaserReplyDate as string, row.version);
+      if ('purchaserRemark' in updates) await sheetService.updatePurchaserRemark(row.id, updates.purchaserRemark as string, row.version);
+    } catch (err: any) {
+      alert(err?.message || '儲存失敗');
+    }
+    await fetchRows();
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm space-y-8">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-extrabold text-slate-800 mb-4 flex items-center gap-4"><ClipboardList size={32} className="text-blue-600"/> 我的欠料</h2>
+          <p className="text-slate-500 text-lg">指派給 {user.username}、尚未回覆交期的欠料，依生產日排序。填入回覆日期後即從清單移除。</p>
+          {error && rows.length > 0 && <p className="text-red-600 font-bold mt-2 flex items-center gap-2"><AlertCircle size={18}/> 更新失敗：{error}</p>}
+        </div>
+        <div className="flex items-center gap-4">
+          <span className="bg-red-100 text-red-700 px-4 py-2 rounded-xl font-bold">待回覆 {total} 項</span>
+          <button onClick={fetchRows} className="px-6 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-2 font-bold text-slate-700 border border-slate-200"><RefreshCw size={18}/> 刷新</button>
+        </div>
+      </div>
+      {loading ? (
+        <div className="flex justify-center py-16"><RefreshCw className="animate-spin text-slate-400" size={32}/></div>
+      ) : error && rows.length === 0 ? (
+        <div className="flex flex-col items-center gap-4 py-16 text-red-600">
+          <div className="flex items-center gap-2 font-bold text-lg"><AlertCircle size={24}/> {error}</div>
+          <button onClick={fetchRows} className="px-6 py-3 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-2 font-bold text-slate-700 border border-slate-200"><RefreshCw size={18}/> 重試</button>
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-slate-400 font-bold text-center py-16 text-xl">目前沒有待回覆的欠料</p>
+      ) : (
+        <div className="overflow-auto custom-scrollbar border border-slate-200 rounded-xl">
+          <table className="w-full text-left">
+            <thead className="bg-slate-100 text-slate-600 font-bold sticky top-0">
+              <tr><th className="p-4">生產日</th><th className="p-4">機種 / 工單</th><th className="p-4">料號 / 品名</th><th className="p-4">供應商</th><th className="p-4 text-center">數量</th><th className="p-4 w-44">回覆交期</th><th className="p-4 w-72">備註</th></tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map(row => (
+                <tr key={row.id} className={`align-top ${row.status === 'Late' ? 'bg-red-50/60' : ''}`}>
+                  <td className="p-4 font-mono font-bold text-slate-700">{row.productionDate || '-'}</td>
+                  <td className="p-4"><div className="font-bold text-slate-800">{row.model}</div><div className="font-mono text-blue-800">{row.workOrder} · {row.stage}</div></td>
+                  <td className="p-4"><div className="font-mono font-bold text-blue-900">{row.partNumber}</div><div className="text-slate-500">{row.partName}</div></td>
+                  <td className="p-4 font-bold text-blue-800">{row.supplier}</td>
+                  <td className="p-4 text-center"><span className="font-mono font-bold text-red-600 bg-red-50 px-3 py-1 rounded-lg border border-red-200">{row.shortageQty}</span></td>
+                  <td className="p-4"><CompactDateInput value={row.purchaserReplyDate} onChange={val => save(row, { purchaserReplyDate: val })} /></td>
+                  <td className="p-4"><textarea className="border border-slate-300 rounded-lg px-3 py-2 w-full bg-slate-50 outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-500 resize-none h-16" defaultValue={row.purchaserRemark} onBlur={e => e.target.value !== row.purchaserRemark && save(row, { purchaserRemark: e.target.value })} placeholder="備註..." /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- PURCHASER ASSIGNMENT RULES ---
+
+const PurchaserRulesView = () => {
+  const [suppliers, setSuppliers] = useState<string[]>([]);
+  const [owners, setOwners] = useState<Record<string, string>>({});
+  const [purchasers, setPurchasers] = useState<string[]>([]);
+  const [newSupplier, setNewSupplier] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  // Saving replaces every rule, so it stays off until the current rules have loaded
+  const [loaded, setLoaded] = useState(false);
+  const [loadError, setLoadError] = useState('');
+
+  const load = () => {
+    setLoadError('');
+    Promise.all([sheetService.listPurchaserRules(), sheetService.getTrackingFacets(false), sheetService.getUsers()]).then(([rules, facets, users]) => {
+      const ruleMap: Record<string, string> = {};
+      rules.forEach(r => { ruleMap[r.supplier] = r.purchaserUsername; });
+      setOwners(ruleMap);
+      setSuppliers(Array.from(new Set([...facets.suppliers, ...rules.map(r => r.supplier)])).filter(Boolean).sort());
+      setPurchasers(users.filter(u => can(u, 'editReplyDate')).map(u => u.username));
+      setLoaded(true);
+    }, (err: any) => setLoadError(err?.message || '無法載入分配規則'));
+  };
+  useEffect(load, []);
+
+  const addSupplier = () => {
+    const name = newSupplier.trim();
+    if (!name) return;
+    if (!suppliers.some(s => s.toLowerCase() === name.toLowerCase())) setSuppliers([...suppliers, name].sort());
+    setNewSupplier('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const rules: PurchaserRuleRow[] = suppliers.filter(s => owners[s]).map(s => ({ supplier: s, purchaserUsername: owners[s] }));
+      const assigned = await sheetService.savePurchaserRules(rules);
+      alert(assigned > 0 ? `已儲存，並將 ${assigned} 筆未指派的欠料交給對應的採購` : '已儲存');
+    } catch (err: any) {
+      alert(err?.message || '儲存失敗');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm max-w-4xl mx-auto space-y-8">
+      <div>
+        <h2 className="text-3xl font-extrabold text-slate-800 mb-4 flex items-center gap-4"><UserCheck size={32} className="text-blue-600"/> 採購負責分配</h2>
+        <p className="text-slate-500 text-lg">設定每個供應商由哪位採購負責。匯入欠料表時，新的欠料會依供應商自動指派；個別料項可在詳細欠料表中改派。</p>
+        {loadError && (
+          <p className="text-red-600 font-bold mt-2 flex items-center gap-2">
+            <AlertCircle size={18}/> 載入失敗：{loadError}
+            <button onClick={load} className="ml-2 text-blue-600 hover:text-blue-800 flex items-center gap-1"><RefreshCw size={16}/> 重試</button>
+          </p>
+        )}
+      </div>
+      <div className="flex gap-4 bg-slate-50 p-6 rounded-2xl border border-slate-200 items-end">
+        <div className="flex-1">
+          <label className="block text-sm font-bold text-slate-500 mb-2 uppercase">新增供應商 (Supplier)</label>
+          <input className="border border-slate-300 rounded-xl px-4 py-3 w-full text-lg outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-400" placeholder="尚未出現在欠料表的供應商" value={newSupplier} onChange={e => setNewSupplier(e.target.value)} onKeyDown={e => e.key === 'Enter' && addSupplier()}/>
+        </div>
+        <button onClick={addSupplier} className="bg-white border-2 border-slate-300 hover:border-blue-400 hover:text-blue-600 text-slate-600 font-bold py-3 px-8 rounded-xl text-lg h-[54px]">加入</button>
+      </div>
+      <div className="border border-slate-200 rounded-xl divide-y divide-slate-100 max-h-[60vh] overflow-y-auto custom-scrollbar">
+        {suppliers.length === 0 && <p className="p-8 text-center text-slate-400 font-bold">尚無供應商</p>}
+        {suppliers.map(s => (
+          <div key={s} className="flex items-center justify-between gap-6 p-4">
+            <span className="font-bold text-lg text-blue-900">{s}</span>
+            <select className="border border-slate-300 rounded-xl px-4 py-2 w-64 text-base bg-white outline-none focus:ring-4 focus:ring-blue-100 focus:border-blue-400" value={owners[s] || ''} onChange={e => setOwners({ ...owners, [s]: e.target.value })}>
+              <option value="">未指派</option>
+              {owners[s] && !purchasers.includes(owners[s]) && <option value={owners[s]}>{owners[s]}</option>}
+              {purchasers.map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end">
+        <button onClick={handleSave} disabled={isSaving || !loaded} className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 px-10 rounded-xl text-lg shadow-md transition-all active:scale-95 flex items-center gap-2 disabled:opacity-60">
+          {isSaving ? <RefreshCw className="animate-spin"/> : <Check size={24}/>} 儲存規則
+        </button>
+      </div>
     </div>
   );
 };
 
 const UserManagementView = () => {
-  const [users, setUsers] = useState<UserRoleRow[]>([]);
-  const [newUser, setNewUser] = useState({ username: '', role: UserRole.SCHEDULER });
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
+  const [newUser, setNewUser] = useState<{ username: string, name: string, email: string, roles: string[], password: string }>({ username: '', name: '', email: '', roles: [UserRole.SCHEDULER], password: '' });
   const [isAdding, setIsAdding] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInput = useRef<HTMLInputElement>(null);
 
   const fetchUsers = async () => {
-    const list = await sheetService.getUsers();
+    const [list, roleList] = await Promise.all([sheetService.getUsers(), sheetService.listRoles()]);
     setUsers(list);
+    setRoles(roleList);
+  };
+
+  // The service refuses changes that would lock everyone out or orphan a role; show its reason.
+  // Without an action it only (re)loads the list.
+  const run = async (action: () => Promise<unknown> = async () => {}) => {
+    try {
+      await action();
+    } catch (err: any) {
+      alert(err?.message || '操作失敗');
+    }
+    try {
+      await fetchUsers();
+    } catch (err: any) {
+      alert(err?.message || '無法載入人員清單');
+    }
   };
-  useEffect(() => { fetchUsers(); }, []);
+  useEffect(() => { run(); }, []);
+
+  const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
 
   const handleAdd = async () => {
-    if (!newUser.username) return;
+    if (!newUser.username || !newUser.password || newUser.roles.length === 0) return;
     setIsAdding(true);
-    await sheetService.addUser(newUser);
-    setNewUser({ ...newUser, username: '' });
-    await fetchUsers(); // Force refresh
+    await run(async () => {
+      if (!(await sheetService.addUser({ username: newUser.username, name: newUser.name, email: newUser.email, roles: newUser.roles }, newUser.password))) alert('帳號已存在');
+    });
+    setNewUser({ ...newUser, username: '', name: '', email: '', password: '' });
     setIsAdding(false);
   };
 
+  const handleResetPassword = async (username: string) => {
+    const password = prompt(`輸入 ${username} 的新密碼`);
+    if (!password) return;
+    await run(async () => {
+      if (await sheetService.setPassword(username, password)) alert('密碼已更新');
+    });
+  };
+
   const handleDelete = async (username: string) => {
     if (confirm(`確定刪除 ${username}?`)) {
-      await sheetService.deleteUser(username);
-      await fetchUsers();
+      await run(() => sheetService.deleteUser(username));
     }
   };
 
+  const handleEdit = (u: UserAccount, field: 'name' | 'email') => {
+    const value = prompt(field === 'name' ? `${u.username} 的顯示名稱` : `${u.username} 的 Email`, u[field]);
+    if (value === null || value.trim() === u[field]) return;
+    run(() => sheetService.updateUser(u.username, { [field]: value }));
+  };
+
+  const handleToggleActive = (u: UserAccount) => {
+    if (u.active && !confirm(`停用 ${u.username}? 該帳號會立即登出且無法再登入。`)) return;
+    run(() => sheetService.updateUser(u.username, { active: !u.active }));
+  };
+
+  // Existing accounts are updated, new ones created; the service reports rows it skipped
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    await run(async () => {
+      const workbook = await readImportFile(file);
+      const sheet = workbook.sheets.find(hasUserColumns);
+      if (!sheet) return alert('找不到「帳號」欄位，請確認檔案格式');
+      const result = await sheetService.importUsers(parseUserRows(sheet));
+      const lines = [`新增 ${result.created.length} 位，更新 ${result.updated.length} 位`];
+      if (result.rejected.length > 0) {
+        lines.push(`略過 ${result.rejected.length} 列:`, ...result.rejected.map(r => `第 ${r.rowNumber} 列 ${r.username}: ${r.reason}`));
+      }
+      alert(lines.join('\n'));
+    });
+    setIsImporting(false);
+  };
+
+  const handleToggleRole = (u: UserAccount, role: string) => {
+    const next = toggle(u.roles, role);
+    if (next.length === 0) return alert('每位人員至少要有一個角色');
+    run(() => sheetService.updateUser(u.username, { roles: next }));
+  };
+
+  const handleAddRole = () => {
+    const name = prompt('新角色名稱')?.trim();
+    if (!name) return;
+    if (name.includes(',')) return alert('角色名稱不可包含逗號');
+    if (roles.some(r => r.name.toLowerCase() === name.toLowerCase())) return alert('已有同名角色');
+    run(() => sheetService.saveRole({ name, permissions: [] }));
+  };
+
+  const handleDeleteRole = (name: string) => {
+    if (confirm(`確定刪除角色「${getRoleName(name)}」?`)) run(() => sheetService.deleteRole(name));
+  };
+
+  const rolePill = (role: string, active: boolean, onClick: () => void) => (
+    <button key={role} onClick={onClick} className={`px-3 py-1 rounded-full text-sm font-bold border transition-colors ${active ? getRoleColor(role) : 'bg-white text-slate-300 border-slate-200 hover:text-slate-500 hover:border-slate-300'}`}>{getRoleName(role)}</button>
+  );
+
   return (
-    <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm max-w-4xl mx-auto">
-      <h2 className="text-3xl font-extrabold text-slate-800 mb-8 flex items-center gap-4"><Users size={32} className="text-purple-600"/> 人員權限管理</h2>
-      <div className="flex gap-4 mb-10 bg-slate-50 p-6 rounded-2xl border border-slate-200 items-end">
-        <div className="flex-1">
+    <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm max-w-5xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-3xl font-extrabold text-slate-800 flex items-center gap-4"><Users size={32} className="text-purple-600"/> 人員權限管理</h2>
+        <input ref={importInput} type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleImport}/>
+        <button onClick={() => importInput.current?.click()} disabled={isImporting} title="欄位: 帳號、名稱、Email、角色、密碼、狀態" className="px-6 py-3 bg-white border-2 border-slate-200 hover:border-purple-400 hover:text-purple-600 rounded-xl font-bold text-slate-600 transition-colors flex items-center gap-2">
+          {isImporting ? <RefreshCw size={20} className="animate-spin"/> : <UploadCloud size={20}/>} 從 Excel 匯入
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-4 mb-10 bg-slate-50 p-6 rounded-2xl border border-slate-200 items-end">
+        <div className="flex-1 min-w-[200px]">
            <label className="block text-sm font-bold text-slate-500 mb-2 uppercase">新增帳號 (Username)</label>
            <input className="border border-slate-300 rounded-xl px-4 py-3 w-full text-lg outline-none focus:ring-4 focus:ring-purple-100 focus:border-purple-400" placeholder="例如: alice" value={newUser.username} onChange={e=>setNewUser({...newUser, username: e.target.value})}/>
         </div>
-        <div className="w-64">
-           <label className="block text-sm font-bold text-slate-500 mb-2 uppercase">角色 (Role)</label>
-           <select className="border border-slate-300 rounded-xl px-4 py-3 w-full text-lg outline-none bg-white focus:ring-4 focus:ring-purple-100 focus:border-purple-400" value={newUser.role} onChange={e=>setNewUser({...newUser, role: e.target.value as UserRole})}>
-             <option value={UserRole.SCHEDULER}>排程人員</option>
-             <option value={UserRole.PURCHASER}>採購人員</option>
-             <option value={UserRole.BUSINESS}>業管 Team</option>
-             <option value={UserRole.ADMIN}>系統管理員</option>
-           </select>
+        <div className="flex-1 min-w-[160px]">
+           <label className="block text-sm font-bold text-slate-500 mb-2 uppercase">顯示名稱 (Name)</label>
+           <input className="border border-slate-300 rounded-xl px-4 py-3 w-full text-lg outline-none focus:ring-4 focus:ring-purple-100 focus:border-purple-400" placeholder="例如: 王小明" value={newUser.name} onChange={e=>setNewUser({...newUser, name: e.target.value})}/>
+        </div>
+        <div className="flex-1 min-w-[200px]">
+           <label className="block text-sm font-bold text-slate-500 mb-2 uppercase">Email</label>
+           <input type="email" className="border border-slate-300 rounded-xl px-4 py-3 w-full text-lg outline-none focus:ring-4 focus:ring-purple-100 focus:border-purple-400" value={newUser.email} onChange={e=>setNewUser({...newUser, email: e.target.value})}/>
+        </div>
+        <div className="w-56">
+           <label className="block text-sm font-bold text-slate-500 mb-2 uppercase">初始密碼 (Password)</label>
+           <input type="password" autoComplete="new-password" className="border border-slate-300 rounded-xl px-4 py-3 w-full text-lg outline-none focus:ring-4 focus:ring-purple-100 focus:border-purple-400" value={newUser.password} onChange={e=>setNewUser({...newUser, password: e.target.value})}/>
+        </div>
+        <div className="flex-1 min-w-[240px]">
+           <label className="block text-sm font-bold text-slate-500 mb-2 uppercase">角色 (Roles)</label>
+           <div className="flex flex-wrap gap-2 min-h-[54px] items-center">{roles.map(r => rolePill(r.name, newUser.roles.includes(r.name), () => setNewUser({ ...newUser, roles: toggle(newUser.roles, r.name) })))}</div>
         </div>
         <button onClick={handleAdd} disabled={isAdding} className="bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-8 rounded-xl text-lg shadow-md transition-all active:scale-95 h-[54px] flex items-center gap-2">
            {isAdding ? <RefreshCw className="animate-spin"/> : <Check size={24}/>} 新增
@@ -788,51 +2565,134 @@ const UserManagementView = () => {
       </div>
       <div className="space-y-4">
         {users.map(u => (
-          <div key={u.username} className="flex justify-between items-center p-6 bg-white border border-slate-100 rounded-2xl shadow-sm hover:shadow-md transition-all">
+          <div key={u.username} className={`flex justify-between items-center gap-6 p-6 border border-slate-100 rounded-2xl shadow-sm hover:shadow-md transition-all ${u.active ? 'bg-white' : 'bg-slate-50 opacity-70'}`}>
              <div className="flex items-center gap-6">
-                <div className={`p-3 rounded-full ${u.role === UserRole.ADMIN ? 'bg-purple-100 text-purple-600' : 'bg-slate-100 text-slate-500'}`}>{u.role === UserRole.ADMIN ? <Shield size={24}/> : <UserIcon size={24}/>}</div>
-                <div><div className="text-xl font-bold text-slate-800">{u.username}</div><div className="text-slate-500 font-medium">{u.role}</div></div>
+                <div className={`p-3 rounded-full ${can(u, 'manageUsers') ? 'bg-purple-100 text-purple-600' : 'bg-slate-100 text-slate-500'}`}>{can(u, 'manageUsers') ? <Shield size={24}/> : <UserIcon size={24}/>}</div>
+                <div>
+                  <div className="flex items-center gap-3">
+                    <button onClick={() => handleEdit(u, 'name')} className="text-xl font-bold text-slate-800 hover:text-purple-600" title="修改顯示名稱">{u.name}</button>
+                    {u.name !== u.username && <span className="text-slate-400 font-mono">{u.username}</span>}
+                    {!u.active && <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-slate-200 text-slate-600">已停用</span>}
+                  </div>
+                  <button onClick={() => handleEdit(u, 'email')} className="text-sm text-slate-400 hover:text-purple-600" title="修改 Email">{u.email || '未設定 Email'}</button>
+                  <div className="flex flex-wrap gap-2 mt-2">{roles.map(r => rolePill(r.name, u.roles.some(n => n.toLowerCase() === r.name.toLowerCase()), () => handleToggleRole(u, r.name)))}</div>
+                </div>
+             </div>
+             <div className="flex items-center gap-2">
+               <button onClick={()=>handleResetPassword(u.username)} className="text-slate-300 hover:text-purple-600 p-2 transition-colors" title="重設密碼"><KeyRound size={24}/></button>
+               <button onClick={()=>handleToggleActive(u)} className={`px-3 py-1 rounded-lg text-sm font-bold border transition-colors ${u.active ? 'border-green-200 text-green-700 hover:bg-green-50' : 'border-slate-300 text-slate-500 hover:bg-slate-100'}`} title={u.active ? '停用帳號' : '重新啟用'}>{u.active ? '啟用中' : '已停用'}</button>
+               <button onClick={()=>handleDelete(u.username)} className="text-slate-300 hover:text-red-500 p-2 transition-colors" title="刪除帳號"><Trash2 size={24}/></button>
              </div>
-             {u.username !== 'admin' && (<button onClick={()=>handleDelete(u.username)} className="text-slate-300 hover:text-red-500 p-2 transition-colors"><Trash2 size={24}/></button>)}
           </div>
         ))}
       </div>
+
+      <div className="mt-12 pt-10 border-t border-slate-200">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-2xl font-extrabold text-slate-800 flex items-center gap-3"><Shield size={28} className="text-purple-600"/> 角色與權限</h3>
+          <button onClick={handleAddRole} className="px-6 py-3 bg-white border-2 border-slate-200 hover:border-purple-400 hover:text-purple-600 rounded-xl font-bold text-slate-600 transition-colors">新增角色</button>
+        </div>
+        <div className="overflow-auto custom-scrollbar border border-slate-200 rounded-xl">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-100 text-slate-600 font-bold">
+              <tr><th className="p-3">角色</th>{PERMISSIONS.map(p => <th key={p} className="p-3 text-center">{PERMISSION_LABELS[p]}</th>)}<th className="p-3"></th></tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {roles.map(role => (
+                <tr key={role.name}>
+                  <td className="p-3"><span className={`px-3 py-1 rounded-full font-bold border ${getRoleColor(role.name)}`}>{getRoleName(role.name)}</span></td>
+                  {PERMISSIONS.map(p => (
+                    <td key={p} className="p-3 text-center"><input type="checkbox" className="w-5 h-5 accent-purple-600 cursor-pointer" checked={role.permissions.includes(p)} onChange={() => run(() => sheetService.saveRole({ ...role, permissions: toggle(role.permissions, p) }))}/></td>
+                  ))}
+                  <td className="p-3 text-right"><button onClick={() => handleDeleteRole(role.name)} className="text-slate-300 hover:text-red-500 p-1 transition-colors" title="刪除角色"><Trash2 size={18}/></button></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
     </div>
   );
 };
 
+// Purchasers start on their own open lines instead of scrolling through every model
+const landingView = (user: User) => can(user, 'editReplyDate') && !can(user, 'editOqcDate') ? 'mine' : 'tracking';
+
 const App = () => {
   const [user, setUser] = useState<User | null>(null);
-  const [view, setView] = useState<'tracking' | 'upload' | 'users'>('tracking');
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [view, setView] = useState<'tracking' | 'timeline' | 'dashboard' | 'mine' | 'upload' | 'erp' | 'owners' | 'users'>('tracking');
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [pending, setPending] = useState<PendingMutation[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => sheetService.onPendingChange(setPending), []);
 
   useEffect(() => {
-    const saved = sessionStorage.getItem('erp_user');
-    if (saved) setUser(JSON.parse(saved));
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
   }, []);
 
-  const handleLogin = async (username: string) => {
-    const res = await sheetService.login(username);
-    if (res) {
-      const userData = { username: res.user.username, name: res.user.username, role: res.role };
-      setUser(userData);
-      sessionStorage.setItem('erp_user', JSON.stringify(userData));
+  useEffect(() => {
+    // Only the session token is kept client-side; the user and role always come from the service
+    const token = sessionStorage.getItem('erp_session');
+    if (!token) { setIsRestoring(false); return; }
+    sheetService.resumeSession(token)
+      .then(session => {
+        if (session) {
+          setUser(session.user);
+          setView(landingView(session.user));
+        }
+        else sessionStorage.removeItem('erp_session');
+      })
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  useEffect(() => sheetService.onSessionExpired(() => {
+    sessionStorage.removeItem('erp_session');
+    setUser(null);
+    setView('tracking');
+    alert('登入已逾時，請重新登入');
+  }), []);
+
+  const handleLogin = async (username: string, password: string) => {
+    let session;
+    try {
+      session = await sheetService.login(username, password);
+    } catch (err) {
+      if (err instanceof AuthError && err.code === 'ACCOUNT_DISABLED') return err.message;
+      throw err;
+    }
+    if (session) {
+      setUser(session.user);
+      setView(landingView(session.user));
+      sessionStorage.setItem('erp_session', session.token);
       return null;
     }
-    return '帳號不存在 (預設: admin, scheduler, purchaser)';
+    return '帳號或密碼錯誤';
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    if (pending.length > 0 && !confirm(`還有 ${pending.length} 筆修改尚未同步，會保留在這台裝置，下次以同一帳號登入時再送出。確定登出?`)) return;
+    await sheetService.logout();
     setUser(null);
-    sessionStorage.removeItem('erp_user');
+    sessionStorage.removeItem('erp_session');
     setView('tracking');
   };
 
+  if (isRestoring) return <div className="min-h-screen bg-slate-100 flex items-center justify-center"><RefreshCw className="animate-spin text-slate-400" size={40}/></div>;
   if (!user) return <LoginScreen onLogin={handleLogin} />;
 
-  const canImport = user.role === UserRole.SCHEDULER || user.role === UserRole.ADMIN;
-  const canManageUsers = user.role === UserRole.ADMIN;
+  const canImport = can(user, 'import');
+  const canManageUsers = can(user, 'manageUsers');
+  const canAssign = can(user, 'assignPurchaser');
+  const ownsShortages = can(user, 'editReplyDate');
 
   const NavItem = ({ id, label, icon: Icon }: any) => (
     <button onClick={() => { setView(id); setIsMobileMenuOpen(false); }} className={`w-full flex items-center gap-4 p-4 rounded-xl transition-all mb-2 ${view === id ? 'bg-blue-600 text-white shadow-md' : 'text-slate-500 hover:bg-slate-100 hover:text-blue-600'}`} title={isSidebarCollapsed ? label : ''}>
@@ -842,20 +2702,30 @@ const App = () => {
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col">
-      <Header user={user} onLogout={handleLogout} onToggleMenu={() => setIsMobileMenuOpen(!isMobileMenuOpen)} />
+      <Header user={user} onLogout={handleLogout} onToggleMenu={() => setIsMobileMenuOpen(!isMobileMenuOpen)} pending={pending} isOnline={isOnline} onSync={() => sheetService.flush()} onResolve={(id, keepMine) => sheetService.resolveConflict(id, keepMine)} />
       <div className="flex flex-1 relative">
         <aside className={`${isMobileMenuOpen ? 'fixed inset-0 z-40 bg-white p-6' : 'hidden'} md:block md:sticky md:top-20 md:h-[calc(100vh-80px)] bg-white border-r border-slate-200 transition-all duration-300 ${isSidebarCollapsed ? 'w-24 px-4' : 'w-72 px-6'} py-8 overflow-y-auto`}>
            <div className="space-y-2">
+              {ownsShortages && <NavItem id="mine" label="我的欠料" icon={ClipboardList} />}
               <NavItem id="tracking" label="生產排程追蹤" icon={Layers} />
-              {canImport && <NavItem id="upload" label="匯入 ERP 資料" icon={UploadCloud} />}
+              <NavItem id="timeline" label="生產時間軸" icon={GanttChart} />
+              <NavItem id="dashboard" label="齊料儀表板" icon={BarChart3} />
+              {(canImport || ownsShortages) && <NavItem id="upload" label={canImport ? '匯入 ERP 資料' : '匯入採購回覆'} icon={UploadCloud} />}
+              {canImport && <NavItem id="erp" label="ERP 上傳比較" icon={ArrowLeftRight} />}
+              {canAssign && <NavItem id="owners" label="採購負責分配" icon={UserCheck} />}
               {canManageUsers && <NavItem id="users" label="人員權限管理" icon={Users} />}
            </div>
            <button onClick={() => setIsSidebarCollapsed(!isSidebarCollapsed)} className="hidden md:flex absolute bottom-8 left-0 right-0 justify-center text-slate-400 hover:text-blue-600 transition-colors">{isSidebarCollapsed ? <PanelLeftOpen size={28}/> : <PanelLeftClose size={28}/>}</button>
         </aside>
         <main className="flex-1 p-4 md:p-10 overflow-x-hidden w-full">
            <div className="max-w-[1800px] mx-auto">
+             {view === 'mine' && ownsShortages && <MyShortagesView user={user} />}
              {view === 'tracking' && <TrackingView user={user} />}
-             {view === 'upload' && canImport && <UploadView user={user} />}
+             {view === 'timeline' && <TimelineView user={user} />}
+             {view === 'dashboard' && <DashboardView />}
+             {view === 'upload' && (canImport || ownsShortages) && <UploadView user={user} />}
+             {view === 'erp' && canImport && <ERPCompareView />}
+             {view === 'owners' && canAssign && <PurchaserRulesView />}
              {view === 'users' && canManageUsers && <UserManagementView />}
            </div>
         </main>
@@ -2,6 +2,7 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import './index.css';
 
 const container = document.getElementById('root');
 const root = createRoot(container!);
@@ -10,3 +11,11 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// App shell cache for offline use (see public/sw.js)
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    // Without it the app still works, just not offline
+    navigator.serviceWorker.register('/sw.js').catch(() => {});
+  });
+}
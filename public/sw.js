@@ -0,0 +1,46 @@
+// Service worker: keeps the app shell available on the factory floor when the network drops.
+// Hashed build assets are cache-first; everything else same-origin is network-first with a cached fallback.
+// Data edits are not handled here - the OfflineSheetService queue replays them.
+
+const CACHE = 'cloudsheet-erp-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k !== CACHE).map(k => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheFirst = async request => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(CACHE)).put(request, response.clone());
+  return response;
+};
+
+const networkFirst = async request => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(CACHE)).put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    if (request.mode === 'navigate') return caches.match('/index.html');
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  // The Sheets API and Google sign-in go straight to the network
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin) return;
+  event.respondWith(url.pathname.startsWith('/assets/') ? cacheFirst(event.request) : networkFirst(event.request));
+});
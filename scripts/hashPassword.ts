@@ -0,0 +1,15 @@
+import { createInterface } from 'readline/promises';
+import { hashPassword } from '../services/authCrypto';
+
+// Prints a Users_Roles.PasswordHash value, so the first admin of a new sheet can sign in:
+//   npm run hash-password
+// The password is read from the prompt rather than the command line, so it stays out of the shell history.
+
+const rl = createInterface({ input: process.stdin, output: process.stdout });
+const password = await rl.question('Password: ');
+rl.close();
+if (!password) {
+  process.stderr.write('No password given\n');
+  process.exit(1);
+}
+process.stdout.write(`${await hashPassword(password)}\n`);
@@ -0,0 +1,45 @@
+// Password hashing and session tokens on WebCrypto (PBKDF2-SHA256).
+// Stored hash format: pbkdf2-sha256$<iterations>$<salt hex>$<hash hex>
+
+const ITERATIONS = 100000;
+const HASH_BITS = 256;
+
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // 8 hours
+
+const toHex = (buf: ArrayBuffer | Uint8Array) =>
+  Array.from(buf instanceof Uint8Array ? buf : new Uint8Array(buf)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(h => parseInt(h, 16)));
+
+const randomHex = (bytes: number) => toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return toHex(bits);
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomHex(16);
+  const hash = await derive(password, fromHex(salt), ITERATIONS);
+  return `pbkdf2-sha256$${ITERATIONS}$${salt}$${hash}`;
+};
+
+export const verifyPassword = async (password: string, stored: string | undefined): Promise<boolean> => {
+  if (!stored) return false;
+  const [scheme, iter, salt, expected] = stored.split('$');
+  if (scheme !== 'pbkdf2-sha256' || !iter || !salt || !expected) return false;
+  const actual = await derive(password, fromHex(salt), Number(iter));
+  // Constant-time compare
+  let diff = actual.length ^ expected.length;
+  for (let i = 0; i < Math.min(actual.length, expected.length); i++) {
+    diff |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const createSessionToken = () => randomHex(32);
+
+// Only the digest is persisted, so a leaked Sessions tab can't be replayed as a login
+export const hashSessionToken = async (token: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
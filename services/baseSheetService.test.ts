@@ -0,0 +1,318 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { SheetDatabase, UserRole } from '../types';
+import { BaseSheetService } from './baseSheetService';
+import { INITIAL_DB } from './mockData';
+import { AuthError, PermissionError, UserAdminError } from './serviceErrors';
+
+// The seed database, held in memory; every test starts from a fresh copy
+class MemorySheetService extends BaseSheetService {
+  saves = 0;
+  // What another client saved meanwhile; picked up by the next reload
+  next: SheetDatabase | null = null;
+
+  constructor(db: SheetDatabase) {
+    super();
+    this.db = db;
+  }
+
+  protected async reload() {
+    if (this.next) this.db = this.next;
+    this.next = null;
+  }
+
+  protected async save() {
+    this.saves++;
+  }
+
+  get data() {
+    return this.db;
+  }
+}
+
+const PASSWORD = 'changeme';
+
+let service: MemorySheetService;
+beforeEach(() => {
+  service = new MemorySheetService(JSON.parse(JSON.stringify(INITIAL_DB)));
+});
+
+const row = () => service.data.trackingSchedule[0];
+
+// Runs the call as the given seed account and reports whether the service let it through
+const attempt = async (username: string, call: (s: MemorySheetService) => Promise<unknown>) => {
+  await service.login(username, PASSWORD);
+  try {
+    await call(service);
+    return 'allowed';
+  } catch (err) {
+    if (err instanceof PermissionError) return 'forbidden';
+    throw err;
+  }
+};
+
+describe('permission checks', () => {
+  const matrix: { name: string; call: (s: MemorySheetService) => Promise<unknown>; changed: () => boolean; allowed: string[] }[] = [
+    {
+      name: 'updateDeliveryDate',
+      call: s => s.updateDeliveryDate(row().id, '2031-01-01'),
+      changed: () => row().purchaserReplyDate === '2031-01-01',
+      allowed: ['admin', 'purchaser'],
+    },
+    {
+      name: 'updateRows (reply date and remark)',
+      call: s => s.updateRows([{ rowId: row().id }], { purchaserReplyDate: '2031-01-01', purchaserRemark: 'bulk' }),
+      changed: () => row().purchaserReplyDate === '2031-01-01' || row().purchaserRemark === 'bulk',
+      allowed: ['admin', 'purchaser'],
+    },
+    {
+      name: 'updateRows (purchaser)',
+      call: s => s.updateRows([{ rowId: row().id }], { purchaserUsername: 'admin' }),
+      changed: () => row().purchaserUsername === 'admin',
+      allowed: ['admin', 'scheduler'],
+    },
+    {
+      name: 'importReplies',
+      call: s => s.importReplies([{ rowNumber: 2, rowId: row().id, replyDate: '2031-01-01' }]),
+      changed: () => row().purchaserReplyDate === '2031-01-01',
+      allowed: ['admin', 'purchaser'],
+    },
+    {
+      name: 'assignPurchaser',
+      call: s => s.assignPurchaser([row().id], 'admin'),
+      changed: () => row().purchaserUsername === 'admin',
+      allowed: ['admin', 'scheduler'],
+    },
+  ];
+
+  describe.each(matrix)('$name', ({ call, changed, allowed }) => {
+    it.each(['admin', 'scheduler', 'purchaser', 'business'])('as %s', async username => {
+      const expected = allowed.includes(username) ? 'allowed' : 'forbidden';
+      expect(await attempt(username, call)).toBe(expected);
+      expect(changed()).toBe(expected === 'allowed');
+    });
+  });
+
+  it('refuses the whole batch when one field needs a permission the user lacks', async () => {
+    await service.login('purchaser', PASSWORD);
+    await expect(service.updateRows([{ rowId: row().id }], { purchaserReplyDate: '2031-01-01', purchaserUsername: 'admin' })).rejects.toBeInstanceOf(PermissionError);
+    expect(row().purchaserReplyDate).toBe('');
+    expect(service.data.history).toHaveLength(0);
+  });
+
+  it('rejects calls without a session', async () => {
+    await expect(service.updateDeliveryDate(row().id, '2031-01-01')).rejects.toMatchObject({ code: 'NOT_SIGNED_IN' });
+    await expect(service.updateRows([{ rowId: row().id }], { purchaserRemark: 'x' })).rejects.toBeInstanceOf(AuthError);
+    expect(service.saves).toBe(0);
+  });
+
+  it('checks an import profile deletion against the freshly loaded profile', async () => {
+    await service.login('purchaser', PASSWORD);
+    const next: SheetDatabase = JSON.parse(JSON.stringify(service.data));
+    next.importProfiles.push({ id: 'profile-1', name: 'Supplier replies', target: 'replies', mappingJson: '[]', knownHeadersJson: '[]', updatedAt: '', updatedBy: 'admin' });
+    service.next = next;
+    // Replies profiles only need the reply permission, which purchasers have
+    expect(await service.deleteImportProfile('profile-1')).toBe(true);
+    expect(service.data.importProfiles).toHaveLength(0);
+  });
+
+  it('applies a changed role on the next call', async () => {
+    await service.login('purchaser', PASSWORD);
+    service.data.usersRoles.find(u => u.username === 'purchaser')!.role = UserRole.BUSINESS;
+    await expect(service.updateDeliveryDate(row().id, '2031-01-01')).rejects.toBeInstanceOf(PermissionError);
+  });
+});
+
+describe('updateStageDate', () => {
+  it('only touches rows of the stage whose date changes', async () => {
+    await service.login('admin', PASSWORD);
+    const first = row();
+    const sibling = { ...first, id: 'sibling', partNumber: 'P-SIBLING', oqcDate: '2031-01-01' };
+    service.data.trackingSchedule.push(sibling);
+    const stageRows = () => service.data.trackingSchedule.filter(r => r.workOrder === first.workOrder && r.stage === first.stage);
+    const before = new Map(stageRows().map(r => [r.id, r.version]));
+
+    await service.updateStageDate(first.workOrder, first.stage, 'oqcDate', '2031-01-01');
+
+    const changed = stageRows().filter(r => r.version !== before.get(r.id)).map(r => r.id);
+    expect(stageRows().every(r => r.oqcDate === '2031-01-01')).toBe(true);
+    expect(changed).not.toContain('sibling');
+    expect(changed.length).toBe(stageRows().length - 1);
+    expect(service.data.history).toHaveLength(1);
+  });
+});
+
+describe('updateStageReady', () => {
+  it('only touches and logs the rows that flip', async () => {
+    await service.login('admin', PASSWORD);
+    const first = row();
+    service.data.trackingSchedule.push({ ...first, id: 'sibling', partNumber: 'P-SIBLING', isMaterialReady: true });
+    const stageRows = () => service.data.trackingSchedule.filter(r => r.workOrder === first.workOrder && r.stage === first.stage);
+    const before = new Map(stageRows().map(r => [r.id, r.version]));
+
+    await service.updateStageReady(first.workOrder, first.stage, true);
+
+    const changed = stageRows().filter(r => r.version !== before.get(r.id));
+    expect(stageRows().every(r => r.isMaterialReady)).toBe(true);
+    expect(changed.map(r => r.id)).toContain(first.id);
+    expect(changed.map(r => r.id)).not.toContain('sibling');
+    expect(service.data.history.map(h => [h.rowId, h.oldValue, h.newValue])).toEqual(changed.map(r => [r.id, 'false', 'true']));
+  });
+
+  it('changes nothing when the stage already has the value', async () => {
+    await service.login('admin', PASSWORD);
+    const first = row();
+    await service.updateStageReady(first.workOrder, first.stage, true);
+    const versions = service.data.trackingSchedule.map(r => r.version);
+    const saves = service.saves;
+
+    expect(await service.updateStageReady(first.workOrder, first.stage, true)).toBe(true);
+
+    expect(service.data.trackingSchedule.map(r => r.version)).toEqual(versions);
+    expect(service.saves).toBe(saves);
+    expect(service.data.history.every(h => h.oldValue === 'false')).toBe(true);
+  });
+});
+
+describe('importReplies', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const line = () => ({ rowNumber: 2, rowId: row().id, replyDate: '2031-03-03' });
+
+  it('keeps a reply entered in the app after the file was current', async () => {
+    await service.login('purchaser', PASSWORD);
+    const asOf = new Date(Date.now() - HOUR_MS).toISOString();
+    await service.updateDeliveryDate(row().id, '2031-01-01');
+
+    const result = await service.importReplies([line()], { asOf });
+
+    expect(result).toMatchObject({ updated: 0, skipped: [{ rowNumber: 2, rowId: row().id }] });
+    expect(row().purchaserReplyDate).toBe('2031-01-01');
+  });
+
+  it('overwrites a reply entered in the app before the file was current', async () => {
+    await service.login('purchaser', PASSWORD);
+    await service.updateDeliveryDate(row().id, '2031-01-01');
+    const asOf = new Date(Date.now() + HOUR_MS).toISOString();
+
+    const result = await service.importReplies([line()], { asOf });
+
+    expect(result).toMatchObject({ updated: 1, skipped: [] });
+    expect(row().purchaserReplyDate).toBe('2031-03-03');
+  });
+
+  it('only reports what would change on a dry run', async () => {
+    await service.login('purchaser', PASSWORD);
+    const saves = service.saves;
+
+    const result = await service.importReplies([line()], { dryRun: true });
+
+    expect(result.updated).toBe(1);
+    expect(row().purchaserReplyDate).toBe('');
+    expect(service.saves).toBe(saves);
+  });
+});
+
+describe('user management', () => {
+  const user = (username: string) => service.data.usersRoles.find(u => u.username === username)!;
+  const sessionsOf = (username: string) => service.data.sessions.filter(s => s.username === username);
+
+  it('refuses to disable, demote or delete the last admin', async () => {
+    await service.login('admin', PASSWORD);
+    const saves = service.saves;
+
+    await expect(service.updateUser('admin', { active: false })).rejects.toMatchObject({ code: 'LAST_USER_MANAGER' });
+    await expect(service.updateUser('admin', { roles: [UserRole.PURCHASER] })).rejects.toBeInstanceOf(UserAdminError);
+    await expect(service.deleteUser('admin')).rejects.toBeInstanceOf(UserAdminError);
+
+    expect(user('admin')).toMatchObject({ role: UserRole.ADMIN, disabled: false });
+    expect(service.saves).toBe(saves);
+  });
+
+  it('lets the admin go once another active admin exists', async () => {
+    await service.login('admin', PASSWORD);
+    await service.updateUser('scheduler', { roles: [UserRole.ADMIN] });
+
+    expect(await service.deleteUser('admin')).toBe(true);
+
+    expect(service.data.usersRoles.map(u => u.username)).not.toContain('admin');
+    expect(sessionsOf('admin')).toEqual([]);
+  });
+
+  it('finds accounts regardless of case', async () => {
+    await service.login('ADMIN', PASSWORD);
+
+    expect(await service.updateUser('Purchaser', { name: '採購', active: false })).toBe(true);
+    expect(await service.deleteUser('SCHEDULER')).toBe(true);
+
+    expect(user('purchaser')).toMatchObject({ displayName: '採購', disabled: true });
+    expect(service.data.usersRoles.map(u => u.username)).not.toContain('scheduler');
+    expect(await service.addUser({ username: 'Business', roles: [UserRole.BUSINESS] }, 'pw')).toBe(false);
+  });
+});
+
+describe('importUsers', () => {
+  const user = (username: string) => service.data.usersRoles.find(u => u.username === username);
+
+  it('reports bad rows and applies the rest', async () => {
+    await service.login('admin', PASSWORD);
+
+    const result = await service.importUsers([
+      { rowNumber: 2, username: 'amy', password: 'pw', roles: ['purchaser'] },
+      { rowNumber: 3, username: '', name: 'Nobody' },
+      { rowNumber: 4, username: 'a,b', password: 'pw', roles: [UserRole.PURCHASER] },
+      { rowNumber: 5, username: 'AMY', name: 'Again' },
+      { rowNumber: 6, username: 'bob', roles: [UserRole.PURCHASER] },
+      { rowNumber: 7, username: 'carl', password: 'pw' },
+      { rowNumber: 8, username: 'dan', password: 'pw', roles: ['Nobody'] },
+      { rowNumber: 9, username: 'Scheduler', email: 'sched@example.com' },
+    ]);
+
+    expect(result.created).toEqual(['amy']);
+    expect(result.updated).toEqual(['scheduler']);
+    expect(result.rejected.map(r => [r.rowNumber, r.reason])).toEqual([
+      [3, '缺少帳號'],
+      [4, '帳號不可包含逗號'],
+      [5, '檔案中重複的帳號'],
+      [6, '新帳號需要初始密碼'],
+      [7, '新帳號需要至少一個角色'],
+      [8, '沒有名為「Nobody」的角色'],
+    ]);
+    expect(user('amy')).toMatchObject({ role: UserRole.PURCHASER, disabled: false });
+    expect(user('scheduler')).toMatchObject({ email: 'sched@example.com', role: UserRole.SCHEDULER });
+    expect(await service.login('amy', 'pw')).not.toBeNull();
+  });
+
+  it('signs out accounts whose password changed or that were disabled', async () => {
+    await service.login('purchaser', PASSWORD);
+    await service.login('business', PASSWORD);
+    await service.login('scheduler', PASSWORD);
+    await service.login('admin', PASSWORD);
+
+    await service.importUsers([
+      { rowNumber: 2, username: 'purchaser', password: 'new-password' },
+      { rowNumber: 3, username: 'business', active: false },
+      { rowNumber: 4, username: 'scheduler', name: '排程' },
+    ]);
+
+    const signedIn = service.data.sessions.map(s => s.username);
+    expect(signedIn).not.toContain('purchaser');
+    expect(signedIn).not.toContain('business');
+    expect(signedIn).toContain('scheduler');
+    expect(await service.login('purchaser', PASSWORD)).toBeNull();
+    expect(await service.login('purchaser', 'new-password')).not.toBeNull();
+  });
+
+  it('applies nothing when the file would leave nobody able to manage users', async () => {
+    await service.login('admin', PASSWORD);
+    const before = JSON.parse(JSON.stringify(service.data.usersRoles));
+    const saves = service.saves;
+
+    await expect(service.importUsers([
+      { rowNumber: 2, username: 'amy', password: 'pw', roles: [UserRole.PURCHASER] },
+      { rowNumber: 3, username: 'admin', active: false },
+    ])).rejects.toMatchObject({ code: 'LAST_USER_MANAGER' });
+
+    expect(service.data.usersRoles).toEqual(before);
+    expect(service.data.sessions.map(s => s.username)).toContain('admin');
+    expect(service.saves).toBe(saves);
+  });
+});
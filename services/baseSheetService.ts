@@ -0,0 +1,1018 @@
+import { AuthSession, ERPRawRow, HistoryFilter, HistoryRow, ImportBatch, ImportKind, ImportOptions, ImportProfile, ImportProfileInput, ImportProfileRow, ImportResult, ImportTarget, Permission, PurchaserRuleRow, ReplyImportLine, ReplyImportOptions, ReplyImportResult, RoleDefinition, RowBatchChanges, RowBatchTarget, SheetDatabase, TrackingQuery, TrackingRow, TrackingStatus, NewUser, UserAccount, UserImportResult, UserImportRow, UserRoleRow, UserUpdate, WODetailInput } from '../types';
+import { SESSION_TTL_MS, createSessionToken, hashPassword, hashSessionToken, verifyPassword } from './authCrypto';
+import { AuthError, ConcurrentEditError, ConflictError, ImportBatchError, PermissionError, UserAdminError } from './serviceErrors';
+import { DEFAULT_ROLES, PERMISSION_LABELS, permissionsOf, splitNames, toRoleDefinition, toRoleRow } from './permissions';
+import { ISheetService } from './sheetService';
+import { emptyDatabase } from './sheetSchema';
+import { applyStatuses, computeStatus, getLateLeadDays } from './statusEngine';
+import { buildTrackingFacets, runTrackingQuery, stageVersion } from './trackingQuery';
+import { buildDashboardStats } from './dashboardStats';
+import { SKELETON_PART, compareERPRows, diffTracking } from './importDiff';
+import { normalizeStage } from './importValidation';
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// How many of the latest import batches keep a snapshot for rollback
+const ROLLBACK_WINDOW = 20;
+
+// Unique even when two clients add a row in the same millisecond: the Google backend merges appended rows by id
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export abstract class BaseSheetService implements ISheetService {
+  protected db: SheetDatabase = emptyDatabase();
+
+  // Pull the latest copy of the database from the backing store into this.db
+  protected abstract reload(): Promise<void>;
+  // Write this.db back to the backing store. May throw ConflictError / ConcurrentEditError when
+  // someone else saved the same rows since reload(); nothing is written then.
+  protected abstract save(): Promise<void>;
+
+  // Artificial latency hook, only the mock backend uses it
+  protected async pause(ms: number): Promise<void> {}
+
+  // --- SESSION ---
+  private sessionToken: string | null = null;
+  private sessionExpiredListeners: (() => void)[] = [];
+
+  private toSession(token: string, row: UserRoleRow, expiresAt: number): AuthSession {
+    return { token, user: { username: row.username, name: row.displayName || row.username, roles: splitNames(row.role), permissions: this.permissionsFor(row) }, expiresAt };
+  }
+
+  // Usernames are case-insensitive everywhere: sign-in, sessions, lookups by the admin screens
+  private findUser(username: string) {
+    return this.db.usersRoles.find(u => sameName(u.username, username));
+  }
+
+  private endSessions(username: string) {
+    this.db.sessions = this.db.sessions.filter(s => !sameName(s.username, username));
+  }
+
+  private async findSession(token: string | null) {
+    if (!token) return null;
+    const tokenHash = await hashSessionToken(token);
+    const session = this.db.sessions.find(s => s.tokenHash === tokenHash && s.expiresAt > Date.now());
+    if (!session) return null;
+    const row = this.findUser(session.username);
+    return row && !row.disabled ? { session, row } : null;
+  }
+
+  // Validates the current session and returns the acting user with the role as stored *now*,
+  // so a demoted or deleted user loses access on their next call.
+  // With permissions given, the user's role must grant at least one of them.
+  protected async authorize(...anyOf: Permission[]): Promise<UserRoleRow> {
+    await this.reload();
+    const found = await this.findSession(this.sessionToken);
+    if (!found) {
+      const hadSession = this.sessionToken !== null;
+      this.sessionToken = null;
+      if (hadSession) this.sessionExpiredListeners.forEach(l => l());
+      throw new AuthError(hadSession ? 'SESSION_EXPIRED' : 'NOT_SIGNED_IN', hadSession ? '登入已逾時，請重新登入' : '尚未登入');
+    }
+    if (anyOf.length > 0 && !anyOf.some(p => this.hasPermission(found.row, p))) {
+      throw new PermissionError(anyOf[0], splitNames(found.row.role), `沒有「${PERMISSION_LABELS[anyOf[0]]}」的權限`);
+    }
+    return found.row;
+  }
+
+  // --- ROLES ---
+  // A sheet without a Roles tab runs on the built-in roles
+  private roleDefinitions(roles = this.db.roles): RoleDefinition[] {
+    return roles.length > 0 ? roles.map(toRoleDefinition) : DEFAULT_ROLES;
+  }
+
+  private permissionsFor(row: UserRoleRow, roles?: RoleDefinition[]): Permission[] {
+    return permissionsOf(splitNames(row.role), roles || this.roleDefinitions());
+  }
+
+  private hasPermission(row: UserRoleRow, permission: Permission) {
+    return this.permissionsFor(row).includes(permission);
+  }
+
+  // Refuses changes after which no active account could manage users and roles any more
+  // (deleting, disabling or demoting the last admin, or stripping the permission from their role)
+  private ensureUserManager(users: UserRoleRow[], roles: RoleDefinition[]) {
+    if (!users.some(u => !u.disabled && this.permissionsFor(u, roles).includes('manageUsers'))) {
+      throw new UserAdminError('LAST_USER_MANAGER', '至少要保留一位可管理人員與角色的帳號');
+    }
+  }
+
+  // Canonical spelling of each name; unknown names are rejected
+  private resolveRoleNames(names: string[]) {
+    const roles = this.roleDefinitions();
+    return Array.from(new Set(names.map(n => {
+      const role = roles.find(r => r.name.toLowerCase() === n.trim().toLowerCase());
+      if (!role) throw new UserAdminError('UNKNOWN_ROLE', `沒有名為「${n}」的角色`);
+      return role.name;
+    })));
+  }
+
+  async listRoles() {
+    await this.authorize();
+    return this.roleDefinitions().map(r => ({ ...r, permissions: [...r.permissions] }));
+  }
+
+  // Creates the role, or replaces the permissions of the role with that name
+  async saveRole(role: RoleDefinition) {
+    await this.authorize('manageUsers');
+    const name = role.name.trim();
+    if (!name || name.includes(',')) return false;
+    const roles = this.roleDefinitions().map(r => ({ ...r }));
+    const existing = roles.find(r => r.name.toLowerCase() === name.toLowerCase());
+    if (existing) existing.permissions = [...role.permissions];
+    else roles.push({ name, permissions: [...role.permissions] });
+    this.ensureUserManager(this.db.usersRoles, roles);
+    this.db.roles = roles.map(toRoleRow);
+    await this.save();
+    return true;
+  }
+
+  async deleteRole(name: string) {
+    await this.authorize('manageUsers');
+    const key = name.trim().toLowerCase();
+    const holders = this.db.usersRoles.filter(u => splitNames(u.role).some(r => r.toLowerCase() === key));
+    if (holders.length > 0) {
+      throw new UserAdminError('ROLE_IN_USE', `仍有 ${holders.length} 位人員使用此角色：${holders.map(u => u.username).join(', ')}`);
+    }
+    const roles = this.roleDefinitions().filter(r => r.name.toLowerCase() !== key);
+    if (roles.length === this.roleDefinitions().length) return false;
+    this.db.roles = roles.map(toRoleRow);
+    await this.save();
+    return true;
+  }
+
+  onSessionExpired(listener: () => void) {
+    this.sessionExpiredListeners.push(listener);
+    return () => { this.sessionExpiredListeners = this.sessionExpiredListeners.filter(l => l !== listener); };
+  }
+
+  // --- CHANGE FEED ---
+  private changeListeners: (() => void)[] = [];
+
+  // Backends start/stop noticing outside changes (other tabs, other users) while anyone is subscribed
+  protected startWatching() {}
+  protected stopWatching() {}
+
+  protected notifyChange() {
+    this.changeListeners.forEach(l => l());
+  }
+
+  subscribe(listener: () => void) {
+    this.changeListeners.push(listener);
+    if (this.changeListeners.length === 1) this.startWatching();
+    return () => {
+      const before = this.changeListeners.length;
+      this.changeListeners = this.changeListeners.filter(l => l !== listener);
+      if (before > 0 && this.changeListeners.length === 0) this.stopWatching();
+    };
+  }
+
+  async login(username: string, password: string) {
+    await this.pause(600);
+    await this.reload();
+    const userMap = this.findUser(username);
+    if (!userMap || !(await verifyPassword(password, userMap.passwordHash))) return null;
+    if (userMap.disabled) throw new AuthError('ACCOUNT_DISABLED', '此帳號已停用，請洽系統管理員');
+
+    const token = createSessionToken();
+    const now = Date.now();
+    const expiresAt = now + SESSION_TTL_MS;
+    this.db.sessions = this.db.sessions.filter(s => s.expiresAt > now);
+    this.db.sessions.push({ tokenHash: await hashSessionToken(token), username: userMap.username, expiresAt });
+    await this.save();
+    this.sessionToken = token;
+    return this.toSession(token, userMap, expiresAt);
+  }
+
+  async resumeSession(token: string) {
+    await this.reload();
+    const found = await this.findSession(token);
+    if (!found) return null;
+    this.sessionToken = token;
+    return this.toSession(token, found.row, found.session.expiresAt);
+  }
+
+  async logout() {
+    const token = this.sessionToken;
+    this.sessionToken = null;
+    if (!token) return;
+    await this.reload();
+    const tokenHash = await hashSessionToken(token);
+    this.db.sessions = this.db.sessions.filter(s => s.tokenHash !== tokenHash);
+    await this.save();
+  }
+
+  async setPassword(username: string, newPassword: string) {
+    const actor = await this.authorize();
+    if (!sameName(actor.username, username) && !this.hasPermission(actor, 'manageUsers')) {
+      throw new PermissionError('manageUsers', splitNames(actor.role), '只有管理員可以重設他人密碼');
+    }
+    const row = this.findUser(username);
+    if (!row || !newPassword) return false;
+    row.passwordHash = await hashPassword(newPassword);
+    // Existing sessions of that user stop working
+    this.endSessions(row.username);
+    await this.save();
+    return true;
+  }
+
+  async queryTracking(query: TrackingQuery) {
+    await this.pause(100);
+    await this.authorize();
+    // Dates move on even when nobody edits, so Late is re-evaluated on every load
+    await this.saveRefreshedStatuses();
+    return runTrackingQuery(this.db.trackingSchedule, query);
+  }
+
+  async getTrackingFacets(archived?: boolean) {
+    await this.authorize();
+    return buildTrackingFacets(this.db.trackingSchedule, archived);
+  }
+
+  async getDashboardStats() {
+    await this.authorize();
+    await this.saveRefreshedStatuses();
+    return buildDashboardStats(this.db.trackingSchedule);
+  }
+
+  // --- HISTORY ---
+  protected record(actor: UserRoleRow, entry: Omit<HistoryRow, 'id' | 'timestamp' | 'actor'>) {
+    this.db.history.push({
+      id: newId('hist'),
+      timestamp: new Date().toISOString(),
+      actor: actor.username,
+      ...entry,
+    });
+  }
+
+  async getHistory(filter: HistoryFilter) {
+    await this.authorize();
+    const matches = this.db.history.filter(h =>
+      (!filter.rowId || h.rowId === filter.rowId) &&
+      (!filter.workOrder || h.workOrder === filter.workOrder) &&
+      // Work-order-level entries (imports) have no stage and belong to every stage of the WO
+      (!filter.stage || !h.stage || h.stage === filter.stage)
+    );
+    return matches.reverse().slice(0, filter.limit || matches.length);
+  }
+
+  protected calculateStatus(row: TrackingRow): TrackingStatus {
+      return computeStatus(row, getLateLeadDays(this.db.referenceData));
+  }
+
+  protected refreshStatuses(): boolean {
+      return applyStatuses(this.db.trackingSchedule, getLateLeadDays(this.db.referenceData));
+  }
+
+  // Statuses are derived, so losing a race to someone else's save only means they are recomputed on the next load
+  private async saveRefreshedStatuses() {
+    if (!this.refreshStatuses()) return;
+    try {
+      await this.save();
+    } catch (err) {
+      if (!(err instanceof ConflictError || err instanceof ConcurrentEditError)) throw err;
+    }
+  }
+
+  // --- CONCURRENCY ---
+  private touch(row: TrackingRow) {
+    row.version = (row.version || 0) + 1;
+    row.updatedAt = new Date().toISOString();
+  }
+
+  // Rows an import or rollback created or changed get a version above anything handed out before
+  private stampChanges(before: TrackingRow[]) {
+    const previous = new Map(before.map(r => [r.id, r]));
+    const content = ({ version, updatedAt, status, ...rest }: TrackingRow) => JSON.stringify(rest);
+    this.db.trackingSchedule.forEach(row => {
+      const prev = previous.get(row.id);
+      if (prev && content(prev) === content(row)) return;
+      row.version = Math.max(prev?.version || 0, row.version || 0);
+      this.touch(row);
+    });
+  }
+
+  private checkVersion(current: TrackingRow, version: number, expectedVersion?: number) {
+    if (expectedVersion !== undefined && version !== expectedVersion) {
+      throw new ConflictError('STALE_VERSION', { ...current }, version, '此資料已被其他人修改，請確認後再儲存');
+    }
+  }
+
+  async updateDeliveryDate(rowId: string, newDate: string, expectedVersion?: number) {
+    const actor = await this.authorize('editReplyDate');
+    const row = this.db.trackingSchedule.find(r => r.id === rowId);
+    if (row) {
+      if (row.purchaserReplyDate === newDate) return true;
+      this.checkVersion(row, row.version || 0, expectedVersion);
+      this.record(actor, { action: 'update', rowId, workOrder: row.workOrder, stage: row.stage, field: 'purchaserReplyDate', oldValue: row.purchaserReplyDate, newValue: newDate });
+      row.purchaserReplyDate = newDate;
+      row.status = this.calculateStatus(row);
+      this.touch(row);
+      await this.save();
+      return true;
+    }
+    return false;
+  }
+
+  async updatePurchaserRemark(rowId: string, remark: string, expectedVersion?: number) {
+    const actor = await this.authorize('editReplyDate');
+    const row = this.db.trackingSchedule.find(r => r.id === rowId);
+    if (row) {
+      if (row.purchaserRemark === remark) return true;
+      this.checkVersion(row, row.version || 0, expectedVersion);
+      this.record(actor, { action: 'update', rowId, workOrder: row.workOrder, stage: row.stage, field: 'purchaserRemark', oldValue: row.purchaserRemark, newValue: remark });
+      row.purchaserRemark = remark;
+      this.touch(row);
+      await this.save();
+      return true;
+    }
+    return false;
+  }
+
+  async updateStageDate(workOrder: string, stage: string, field: 'oqcDate', newDate: string, expectedVersion?: number) {
+    const actor = await this.authorize('editOqcDate');
+    const stageRows = this.db.trackingSchedule.filter(row => row.workOrder === workOrder && row.stage === stage);
+    if (stageRows.length === 0) return false;
+    // Rows that already have the date keep their version, so nobody else's edit to them conflicts
+    const changing = stageRows.filter(row => row[field] !== newDate);
+    if (changing.length === 0) return true;
+    this.checkVersion(stageRows[0], stageVersion(stageRows), expectedVersion);
+    this.record(actor, { action: 'update', rowId: '', workOrder, stage, field, oldValue: changing[0][field], newValue: newDate });
+    changing.forEach(row => {
+      row[field] = newDate;
+      row.status = this.calculateStatus(row);
+      this.touch(row);
+    });
+    await this.save();
+    return true;
+  }
+
+  async updateStageReady(workOrder: string, stage: string, isReady: boolean, expectedVersion?: number) {
+    const actor = await this.authorize('toggleReady');
+    const stageRows = this.db.trackingSchedule.filter(row => row.workOrder === workOrder && row.stage === stage);
+    if (stageRows.length === 0) return false;
+    // A repeated click changes nothing; in a mixed stage only the rows that flip are touched and logged
+    const changing = stageRows.filter(row => row.isMaterialReady !== isReady);
+    if (changing.length === 0) return true;
+    this.checkVersion(stageRows[0], stageVersion(stageRows), expectedVersion);
+    changing.forEach(row => {
+      this.record(actor, { action: 'update', rowId: row.id, workOrder, stage, field: 'isMaterialReady', oldValue: String(row.isMaterialReady), newValue: String(isReady) });
+      row.isMaterialReady = isReady;
+      row.status = this.calculateStatus(row);
+      this.touch(row);
+    });
+    await this.save();
+    return true;
+  }
+
+
+  async updateRows(targets: RowBatchTarget[], changes: RowBatchChanges) {
+    const needed: Permission[] = [];
+    if (changes.purchaserReplyDate !== undefined || changes.purchaserRemark !== undefined) needed.push('editReplyDate');
+    if (changes.purchaserUsername !== undefined) needed.push('assignPurchaser');
+    const actor = await this.authorize(...needed.slice(0, 1));
+    const missing = needed.find(p => !this.hasPermission(actor, p));
+    if (missing) throw new PermissionError(missing, splitNames(actor.role), `沒有「${PERMISSION_LABELS[missing]}」的權限`);
+    if (changes.purchaserUsername) {
+      const owner = this.findUser(changes.purchaserUsername);
+      if (!owner) return 0;
+      changes = { ...changes, purchaserUsername: owner.username };
+    }
+
+    const fields = (Object.keys(changes) as (keyof RowBatchChanges)[]).filter(f => changes[f] !== undefined);
+    const byId = new Map(this.db.trackingSchedule.map(r => [r.id, r]));
+    // Every row is checked before any is changed, so a conflict leaves the whole batch unapplied
+    const edits = Array.from(new Map(targets.map(t => [t.rowId, t])).values()).flatMap(target => {
+      const row = byId.get(target.rowId);
+      const changed = row ? fields.filter(f => row[f] !== changes[f]) : [];
+      if (!row || changed.length === 0) return [];
+      this.checkVersion(row, row.version || 0, target.expectedVersion);
+      return [{ row, changed }];
+    });
+    edits.forEach(({ row, changed }) => {
+      changed.forEach(field => {
+        this.record(actor, { action: 'update', rowId: row.id, workOrder: row.workOrder, stage: row.stage, field, oldValue: row[field], newValue: changes[field] as string });
+        row[field] = changes[field] as string;
+      });
+      row.status = this.calculateStatus(row);
+      this.touch(row);
+    });
+    if (edits.length > 0) await this.save();
+    return edits.length;
+  }
+
+  async archiveModel(modelName: string, isArchived: boolean) {
+    const actor = await this.authorize('archive');
+    const targetModel = modelName.trim().toLowerCase();
+    const touchedWOs = new Set<string>();
+    this.db.trackingSchedule.forEach(row => {
+      if (row.model.trim().toLowerCase() === targetModel) {
+        if (row.isArchived !== isArchived) {
+          touchedWOs.add(row.workOrder);
+          this.touch(row);
+        }
+        row.isArchived = isArchived;
+      }
+    });
+    touchedWOs.forEach(workOrder => {
+      this.record(actor, { action: 'archive', rowId: '', workOrder, stage: '', field: 'isArchived', oldValue: String(!isArchived), newValue: String(isArchived) });
+    });
+    await this.save();
+    return true;
+  }
+
+  // --- PURCHASER OWNERSHIP ---
+  // Owner of a new shortage line, '' when no rule covers the supplier
+  private purchaserFor(supplier: string) {
+    const key = supplier.trim().toLowerCase();
+    return this.db.purchaserRules.find(r => r.supplier.trim().toLowerCase() === key)?.purchaserUsername || '';
+  }
+
+  private setPurchaser(actor: UserRoleRow, row: TrackingRow, username: string) {
+    this.record(actor, { action: 'update', rowId: row.id, workOrder: row.workOrder, stage: row.stage, field: 'purchaserUsername', oldValue: row.purchaserUsername, newValue: username });
+    row.purchaserUsername = username;
+    this.touch(row);
+  }
+
+  async listPurchaserRules() {
+    await this.authorize();
+    return this.db.purchaserRules.map(r => ({ ...r }));
+  }
+
+  // Replaces the whole rule list, then hands active lines nobody owns yet to their supplier's purchaser.
+  // Returns how many lines were assigned that way.
+  async savePurchaserRules(rules: PurchaserRuleRow[]) {
+    const actor = await this.authorize('assignPurchaser');
+    const seen = new Set<string>();
+    this.db.purchaserRules = rules
+      .map(r => ({ supplier: r.supplier.trim(), purchaserUsername: r.purchaserUsername.trim() }))
+      .filter(r => {
+        const key = r.supplier.toLowerCase();
+        if (!r.supplier || !r.purchaserUsername || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    let assigned = 0;
+    this.db.trackingSchedule.forEach(row => {
+      if (row.purchaserUsername || row.isArchived || row.partNumber === SKELETON_PART) return;
+      const owner = this.purchaserFor(row.supplier);
+      if (!owner) return;
+      this.setPurchaser(actor, row, owner);
+      assigned++;
+    });
+    await this.save();
+    return assigned;
+  }
+
+  // username '' leaves the lines unassigned
+  async assignPurchaser(rowIds: string[], username: string) {
+    const actor = await this.authorize('assignPurchaser');
+    if (username) {
+      const owner = this.findUser(username);
+      if (!owner) return false;
+      username = owner.username;
+    }
+    const ids = new Set(rowIds);
+    let changed = false;
+    this.db.trackingSchedule.forEach(row => {
+      if (!ids.has(row.id) || row.purchaserUsername === username) return;
+      this.setPurchaser(actor, row, username);
+      changed = true;
+    });
+    if (changed) await this.save();
+    return changed;
+  }
+
+  // Reply dates / remarks from supplier reports or purchasers' spreadsheets, applied in one save.
+  // A field someone changed in the app after options.asOf is left alone and the line reported as skipped.
+  async importReplies(lines: ReplyImportLine[], options: ReplyImportOptions = {}) {
+    const actor = await this.authorize('editReplyDate');
+    const { asOf } = options;
+    const committed = this.db;
+    if (options.dryRun) this.db = JSON.parse(JSON.stringify(committed));
+    try {
+      const result: ReplyImportResult = { updated: 0, unchanged: 0, unmatched: [], skipped: [] };
+      const editedSince = (rowId: string, field: string) =>
+        !!asOf && this.db.history.some(h => h.rowId === rowId && h.field === field && h.timestamp > asOf);
+      const active = this.db.trackingSchedule.filter(r => !r.isArchived && r.partNumber !== SKELETON_PART);
+      const byLine = new Map<string, TrackingRow[]>();
+      active.forEach(r => {
+        const key = `${r.workOrder}|${r.partNumber}`;
+        byLine.set(key, [...(byLine.get(key) || []), r]);
+      });
+
+      lines.forEach(line => {
+        // A row id from an older report may have been replaced by a re-import; the WO + part still identify the line
+        const byId = line.rowId ? active.find(r => r.id === line.rowId) : undefined;
+        const rows = byId ? [byId] : byLine.get(`${(line.workOrder || '').trim()}|${(line.partNumber || '').trim()}`) || [];
+        if (rows.length === 0) {
+          const label = line.workOrder || line.partNumber ? `${line.workOrder || '-'} / ${line.partNumber || '-'}` : line.rowId;
+          result.unmatched.push({ rowNumber: line.rowNumber, reason: `找不到進行中的欠料 ${label}` });
+          return;
+        }
+        rows.forEach(row => {
+          const changes: Partial<Pick<TrackingRow, 'purchaserReplyDate' | 'purchaserRemark'>> = {};
+          if (line.replyDate && line.replyDate !== row.purchaserReplyDate) changes.purchaserReplyDate = line.replyDate;
+          if (line.remark !== undefined && line.remark !== row.purchaserRemark) changes.purchaserRemark = line.remark;
+          const fields = Object.keys(changes) as ('purchaserReplyDate' | 'purchaserRemark')[];
+          if (fields.length === 0) { result.unchanged++; return; }
+          if (fields.some(f => editedSince(row.id, f))) {
+            result.skipped.push({ rowNumber: line.rowNumber, rowId: row.id, reason: `${row.workOrder} / ${row.partNumber} 在此檔案之後已有人在系統更新回覆，保留目前資料` });
+            return;
+          }
+          fields.forEach(field => {
+            this.record(actor, { action: 'update', rowId: row.id, workOrder: row.workOrder, stage: row.stage, field, oldValue: row[field], newValue: changes[field] as string });
+            row[field] = changes[field] as string;
+          });
+          row.status = this.calculateStatus(row);
+          this.touch(row);
+          result.updated++;
+        });
+      });
+      if (!options.dryRun && result.updated > 0) await this.save();
+      return result;
+    } finally {
+      if (options.dryRun) this.db = committed;
+    }
+  }
+
+  // Runs an import against this.db, or against a throwaway copy when dryRun is set,
+  // and reports the row-level diff either way
+  protected async runImport(options: ImportOptions, actor: UserRoleRow, batch: { kind: ImportKind; workOrders: string[]; rowCount: number; erpRows?: Omit<ERPRawRow, 'id'>[] }, apply: () => boolean): Promise<ImportResult> {
+    const committed = this.db;
+    const before = committed.trackingSchedule.map(r => ({ ...r }));
+    if (options.dryRun) this.db = JSON.parse(JSON.stringify(committed));
+    try {
+      const changed = apply();
+      const diff = diffTracking(before, this.db.trackingSchedule);
+      if (options.dryRun || !changed) return { applied: false, batchId: null, diff };
+
+      this.stampChanges(before);
+      const batchId = this.recordBatch(actor, batch.kind, options.label || '', batch.workOrders, batch.rowCount, before);
+      if (batch.erpRows) this.appendERPLedger(batchId, batch.erpRows);
+      this.refreshStatuses();
+      await this.save();
+      return { applied: true, batchId, diff };
+    } finally {
+      if (options.dryRun) this.db = committed;
+    }
+  }
+
+  // Tags the import and keeps the touched WOs' previous rows so it can be rolled back
+  private recordBatch(actor: UserRoleRow, kind: ImportKind, label: string, workOrders: string[], rowCount: number, before: TrackingRow[]) {
+    const id = newId('batch');
+    const woSet = new Set(workOrders);
+    this.db.importBatches.push({
+      id, timestamp: new Date().toISOString(), actor: actor.username, kind, label,
+      workOrders: Array.from(woSet).join(','), rowCount, rolledBackAt: '', rolledBackBy: ''
+    });
+    before.filter(r => woSet.has(r.workOrder)).forEach(r => {
+      this.db.importSnapshots.push({ batchId: id, workOrder: r.workOrder, rowJson: JSON.stringify(r) });
+    });
+
+    // Only the most recent batches stay revertible; older snapshots are dropped to keep the store small
+    const keep = new Set(this.db.importBatches.slice(-ROLLBACK_WINDOW).map(b => b.id));
+    this.db.importSnapshots = this.db.importSnapshots.filter(s => keep.has(s.batchId));
+    return id;
+  }
+
+  // Raw shortage lines exactly as uploaded, independent of later tracking edits or rollbacks
+  private appendERPLedger(batchId: string, rows: Omit<ERPRawRow, 'id'>[]) {
+    const woInfo = new Map<string, TrackingRow>();
+    this.db.trackingSchedule.forEach(r => { if (!woInfo.has(r.workOrder)) woInfo.set(r.workOrder, r); });
+    rows.forEach((d, i) => {
+      const info = woInfo.get(d.workOrder);
+      this.db.erpRawData.push({
+        ...d,
+        id: `erp-${batchId}-${i}`,
+        model: d.model || info?.model || '',
+        requiredDate: d.requiredDate || info?.productionDate || '',
+        uploadBatch: batchId,
+      });
+    });
+  }
+
+  async compareERPUploads(fromBatchId: string, toBatchId: string) {
+    await this.authorize();
+    const rowsOf = (batchId: string) => this.db.erpRawData.filter(r => r.uploadBatch === batchId);
+    return compareERPRows(rowsOf(fromBatchId), rowsOf(toBatchId));
+  }
+
+  // --- IMPORT PROFILES ---
+  private toProfile(row: ImportProfileRow): ImportProfile {
+    const parse = <T>(json: string, fallback: T): T => {
+      try { return JSON.parse(json) ?? fallback; } catch { return fallback; }
+    };
+    const { mappingJson, knownHeadersJson, ...rest } = row;
+    return { ...rest, mappings: parse(mappingJson, []), knownHeaders: parse(knownHeadersJson, []) };
+  }
+
+  async listImportProfiles(target?: ImportTarget) {
+    await this.authorize();
+    return this.db.importProfiles
+      .filter(p => !target || p.target === target)
+      .map(p => this.toProfile(p));
+  }
+
+  // Purchasers keep their own mappings for reply spreadsheets; ERP mappings need the import permission
+  private profilePermission(target: ImportTarget): Permission {
+    return target === 'replies' ? 'editReplyDate' : 'import';
+  }
+
+  async saveImportProfile(profile: ImportProfileInput) {
+    const actor = await this.authorize(this.profilePermission(profile.target));
+    // Saving under an existing name updates that profile instead of creating a twin
+    const existing = this.db.importProfiles.find(p => (profile.id && p.id === profile.id) ||
+      (p.target === profile.target && p.name.trim().toLowerCase() === profile.name.trim().toLowerCase()));
+    const row: ImportProfileRow = {
+      id: existing?.id || newId('profile'),
+      name: profile.name.trim(),
+      target: profile.target,
+      mappingJson: JSON.stringify(profile.mappings),
+      knownHeadersJson: JSON.stringify(profile.knownHeaders),
+      updatedAt: new Date().toISOString(),
+      updatedBy: actor.username,
+    };
+    if (existing) Object.assign(existing, row);
+    else this.db.importProfiles.push(row);
+    await this.save();
+    return this.toProfile(row);
+  }
+
+  async deleteImportProfile(id: string) {
+    // The permission depends on the profile, so look it up in the freshly loaded copy
+    const actor = await this.authorize();
+    const existing = this.db.importProfiles.find(p => p.id === id);
+    const needed = this.profilePermission(existing ? existing.target : 'woDetails');
+    if (!this.hasPermission(actor, needed)) throw new PermissionError(needed, splitNames(actor.role), `沒有「${PERMISSION_LABELS[needed]}」的權限`);
+    const initialLen = this.db.importProfiles.length;
+    this.db.importProfiles = this.db.importProfiles.filter(p => p.id !== id);
+    const success = this.db.importProfiles.length < initialLen;
+    if (success) await this.save();
+    return success;
+  }
+
+  async listImportBatches(limit: number = 20): Promise<ImportBatch[]> {
+    await this.authorize();
+    const revertible = new Set(this.db.importBatches.slice(-ROLLBACK_WINDOW).map(b => b.id));
+    return this.db.importBatches.slice().reverse().slice(0, limit)
+      .map(b => ({ ...b, canRollback: !b.rolledBackAt && revertible.has(b.id) }));
+  }
+
+  async rollbackImportBatch(batchId: string) {
+    const actor = await this.authorize('import');
+    const index = this.db.importBatches.findIndex(b => b.id === batchId);
+    const batch = this.db.importBatches[index];
+    if (!batch) throw new ImportBatchError('NOT_FOUND', '找不到匯入批次');
+    if (batch.rolledBackAt) throw new ImportBatchError('ALREADY_ROLLED_BACK', '此批次已復原');
+    if (index < this.db.importBatches.length - ROLLBACK_WINDOW) throw new ImportBatchError('EXPIRED', '此批次過舊，已無法復原');
+
+    const workOrders = batch.workOrders.split(',').filter(Boolean);
+    const newer = this.db.importBatches.slice(index + 1)
+      .find(b => !b.rolledBackAt && b.workOrders.split(',').some(wo => workOrders.includes(wo)));
+    if (newer) throw new ImportBatchError('NEWER_BATCH', `請先復原較新的批次 ${newer.label || newer.id}`);
+
+    const restored = this.db.importSnapshots
+      .filter(s => s.batchId === batchId)
+      .map(s => JSON.parse(s.rowJson) as TrackingRow);
+    const before = this.db.trackingSchedule.map(r => ({ ...r }));
+    this.db.trackingSchedule = this.db.trackingSchedule.filter(r => !workOrders.includes(r.workOrder));
+    this.db.trackingSchedule.push(...restored);
+    this.stampChanges(before);
+
+    batch.rolledBackAt = new Date().toISOString();
+    batch.rolledBackBy = actor.username;
+    workOrders.forEach(workOrder => {
+      this.record(actor, { action: 'rollback', rowId: '', workOrder, stage: '', field: batch.kind, oldValue: batch.label || batch.id, newValue: `還原 ${restored.filter(r => r.workOrder === workOrder).length} 筆` });
+    });
+
+    this.refreshStatuses();
+    await this.save();
+    return true;
+  }
+
+  // IMPORT LOGIC: PREVENT DUPLICATES
+  async importShortages(data: Omit<ERPRawRow, 'id'>[], mode: 'replace' | 'merge' = 'replace', options: ImportOptions = {}) {
+    await this.pause(500);
+    const actor = await this.authorize('import');
+    const workOrders = Array.from(new Set(data.map(d => d.workOrder)));
+    return this.runImport(options, actor, { kind: `shortages:${mode}`, workOrders, rowCount: data.length, erpRows: data }, () => this.applyShortages(actor, data, mode));
+  }
+
+  private applyShortages(actor: UserRoleRow, data: Omit<ERPRawRow, 'id'>[], mode: 'replace' | 'merge') {
+    // Group incoming data by WO
+    const incomingByWO: Record<string, typeof data> = {};
+    data.forEach(d => {
+       if (!incomingByWO[d.workOrder]) incomingByWO[d.workOrder] = [];
+       incomingByWO[d.workOrder].push(d);
+    });
+
+    const targetWOs = Object.keys(incomingByWO);
+    const openLines = (workOrder: string) =>
+      this.db.trackingSchedule.filter(r => r.workOrder === workOrder && r.shortageQty > 0).length;
+    const linesBefore: Record<string, number> = {};
+    targetWOs.forEach(wo => { linesBefore[wo] = openLines(wo); });
+
+    // MODE 1: REPLACE (Card 2) - Dangerous but Clean
+    // For each WO in the new list, DELETE ALL existing rows for that WO, then insert new ones.
+    if (mode === 'replace') {
+        // 1. Map existing metadata for target WOs (must happen before the rows are deleted)
+        const metadataMap: Record<string, {model: string, vendor: string, stage: any, prodDate: string, productPN: string, oqcDate: string, isArchived: boolean}> = {};
+        // Purchaser / scheduler input per (WO, part) so a weekly refresh doesn't wipe it
+        const carryMap = new Map<string, TrackingRow>();
+        this.db.trackingSchedule.forEach(r => {
+            if (targetWOs.includes(r.workOrder)) {
+                if (!metadataMap[r.workOrder]) {
+                    metadataMap[r.workOrder] = {
+                        model: r.model,
+                        vendor: r.vendor,
+                        stage: r.stage,
+                        prodDate: r.productionDate || '',
+                        productPN: r.productPartNumber || '',
+                        oqcDate: r.oqcDate,
+                        isArchived: r.isArchived
+                    };
+                }
+                if (r.partNumber !== SKELETON_PART) carryMap.set(`${r.workOrder}-${r.partNumber}`, r);
+            }
+        });
+
+        // 2. Delete rows (including Skeletons and old shortages)
+        this.db.trackingSchedule = this.db.trackingSchedule.filter(row => !targetWOs.includes(row.workOrder));
+
+        // 3. Add new rows with metadata, carrying over replies for parts that are still short
+        const newRows: TrackingRow[] = [];
+        data.forEach((d, i) => {
+            const meta = metadataMap[d.workOrder] || { model: 'Unknown', vendor: '', stage: 'SMT', prodDate: '', productPN: '', oqcDate: '', isArchived: false };
+            const prev = carryMap.get(`${d.workOrder}-${d.partNumber}`);
+            newRows.push({
+                id: prev ? prev.id : `track-${Date.now()}-${i}`, // Keep the id so change history stays attached
+                model: d.model || meta.model, // If Shortage has model, use it, else inherit
+                workOrder: d.workOrder,
+                partNumber: d.partNumber,
+                partName: d.partName,
+                specification: d.specification,
+                supplier: d.supplier,
+                shortageQty: d.shortageQty,
+                stage: meta.stage,
+                vendor: meta.vendor,
+                productPartNumber: meta.productPN,
+                productionDate: meta.prodDate,
+                oqcDate: prev ? prev.oqcDate : meta.oqcDate,
+                isMaterialReady: prev ? prev.isMaterialReady : false,
+                purchaserReplyDate: prev ? prev.purchaserReplyDate : '',
+                purchaserRemark: prev ? prev.purchaserRemark : '',
+                status: 'Pending',
+                purchaserUsername: prev?.purchaserUsername || this.purchaserFor(d.supplier),
+                isArchived: meta.isArchived,
+                version: prev ? prev.version : 0,
+                updatedAt: prev ? prev.updatedAt : ''
+            });
+        });
+        this.db.trackingSchedule.push(...newRows);
+    } 
+    
+    // MODE 2: MERGE (Card 3) - Safe
+    else if (mode === 'merge') {
+        const existingMap = new Map<string, TrackingRow>();
+        this.db.trackingSchedule.forEach(row => existingMap.set(`${row.workOrder}-${row.partNumber}`, row));
+
+        // Update or Add
+        data.forEach(d => {
+            const key = `${d.workOrder}-${d.partNumber}`;
+            const existing = existingMap.get(key);
+            
+            if (existing) {
+                // Update Qty only
+                existing.shortageQty = d.shortageQty;
+                existing.status = existing.shortageQty === 0 ? 'Ready' : existing.status;
+                // Preserve purchaser info (don't touch), but give unowned lines an owner
+                if (!existing.purchaserUsername) existing.purchaserUsername = this.purchaserFor(existing.supplier);
+            } else {
+                // Add new
+                // Need metadata
+                const sibling = this.db.trackingSchedule.find(r => r.workOrder === d.workOrder);
+                const meta = sibling || { model: 'Unknown', vendor: '', stage: 'SMT', productionDate: '', productPartNumber: '' };
+                
+                this.db.trackingSchedule.push({
+                    id: `track-merge-${Date.now()}-${Math.random()}`,
+                    model: meta.model,
+                    workOrder: d.workOrder,
+                    partNumber: d.partNumber,
+                    partName: d.partName,
+                    specification: d.specification,
+                    supplier: d.supplier,
+                    shortageQty: d.shortageQty,
+                    stage: meta.stage,
+                    vendor: meta.vendor,
+                    productPartNumber: meta.productPartNumber,
+                    productionDate: meta.productionDate,
+                    oqcDate: '',
+                    isMaterialReady: false,
+                    purchaserReplyDate: '',
+                    purchaserRemark: '',
+                    status: 'Pending',
+                    purchaserUsername: this.purchaserFor(d.supplier),
+                    isArchived: false,
+                    version: 0,
+                    updatedAt: ''
+                });
+            }
+        });
+
+        // Handle resolved items (in DB but not in new list)?
+        // For 'Merge', we usually assume the new list contains ALL current shortages.
+        // So if something is missing in new list, it means qty = 0.
+        // Let's implement that:
+        const incomingKeys = new Set(data.map(d => `${d.workOrder}-${d.partNumber}`));
+        this.db.trackingSchedule.forEach(row => {
+            if (targetWOs.includes(row.workOrder)) {
+                const key = `${row.workOrder}-${row.partNumber}`;
+                if (!incomingKeys.has(key) && row.partNumber !== SKELETON_PART) {
+                    row.shortageQty = 0;
+                    row.status = 'Ready';
+                }
+            }
+        });
+    }
+
+    targetWOs.forEach(wo => {
+      this.record(actor, { action: 'import', rowId: '', workOrder: wo, stage: '', field: `shortages:${mode}`, oldValue: `${linesBefore[wo]} 項欠料`, newValue: `${openLines(wo)} 項欠料` });
+    });
+    return targetWOs.length > 0;
+  }
+
+  async importWODetails(data: WODetailInput[], options: ImportOptions = {}) {
+    await this.pause(500);
+    const actor = await this.authorize('import');
+    const workOrders = Array.from(new Set(data.map(d => d.workOrder)));
+    return this.runImport(options, actor, { kind: 'woDetails', workOrders, rowCount: data.length }, () => this.applyWODetails(actor, data));
+  }
+
+  private applyWODetails(actor: UserRoleRow, data: WODetailInput[]) {
+    let updatedCount = 0;
+    const describe = (r: { model: string; vendor: string; stage?: string; productionDate?: string }) =>
+      [r.model, r.vendor, r.stage, r.productionDate].filter(Boolean).join(' / ');
+    
+    data.forEach(info => {
+      const existing = this.db.trackingSchedule.find(row => row.workOrder === info.workOrder);
+      const exists = !!existing;
+      const before = existing ? describe(existing) : '';
+      let s = info.stage?.trim() || 'SMT';
+      s = normalizeStage(s) || s;
+
+      if (!exists) {
+         // Create Skeleton
+         const skeleton: TrackingRow = {
+             id: `skel-${Date.now()}-${Math.random()}`,
+             model: info.model,
+             workOrder: info.workOrder,
+             vendor: info.vendor,
+             stage: s as any,
+             productPartNumber: info.productPartNumber,
+             productionDate: info.productionDate,
+             partNumber: SKELETON_PART, 
+             partName: '', specification: '', supplier: '', shortageQty: 0, oqcDate: '', isMaterialReady: false, purchaserReplyDate: '', purchaserRemark: '', status: 'Ready', purchaserUsername: '', isArchived: false, version: 0, updatedAt: ''
+         };
+         this.db.trackingSchedule.push(skeleton);
+         updatedCount++;
+      } else {
+        // Update existing rows (Merge Metadata)
+        this.db.trackingSchedule.forEach(row => {
+            if (row.workOrder === info.workOrder) {
+                if (info.model) row.model = info.model;
+                if (info.vendor) row.vendor = info.vendor;
+                if (info.productPartNumber) row.productPartNumber = info.productPartNumber;
+                if (info.productionDate) row.productionDate = info.productionDate;
+                if (info.stage) row.stage = s as any;
+                updatedCount++;
+            }
+        });
+      }
+      const after = describe(this.db.trackingSchedule.find(row => row.workOrder === info.workOrder)!);
+      if (after !== before) {
+        this.record(actor, { action: 'import', rowId: '', workOrder: info.workOrder, stage: '', field: 'woDetails', oldValue: before, newValue: after });
+      }
+    });
+
+    return updatedCount > 0;
+  }
+
+  async getAllERP() {
+    await this.authorize();
+    return this.db.erpRawData;
+  }
+  private toAccount(row: UserRoleRow): UserAccount {
+    return {
+      username: row.username,
+      name: row.displayName || row.username,
+      email: row.email || '',
+      active: !row.disabled,
+      roles: splitNames(row.role),
+      permissions: this.permissionsFor(row),
+    };
+  }
+
+  // Applies an update to a copy of the row; callers check the result before storing it
+  private applyUserUpdate(row: UserRoleRow, changes: UserUpdate): UserRoleRow {
+    const updated = { ...row };
+    if (changes.roles) updated.role = this.resolveRoleNames(changes.roles).join(',');
+    if (changes.name !== undefined) updated.displayName = changes.name.trim() === row.username ? '' : changes.name.trim();
+    if (changes.email !== undefined) updated.email = changes.email.trim();
+    if (changes.active !== undefined) updated.disabled = !changes.active;
+    return updated;
+  }
+
+  async getUsers() {
+    await this.authorize('manageUsers', 'assignPurchaser');
+    return this.db.usersRoles.map(u => this.toAccount(u));
+  }
+  async addUser(user: NewUser, password: string) {
+    await this.authorize('manageUsers');
+    const username = user.username.trim();
+    if (!username || !password || this.findUser(username)) return false;
+    const roles = this.resolveRoleNames(user.roles);
+    this.db.usersRoles.push({
+      username,
+      role: roles.join(','),
+      passwordHash: await hashPassword(password),
+      displayName: (user.name || '').trim(),
+      email: (user.email || '').trim(),
+      disabled: false,
+    });
+    await this.save();
+    return true;
+  }
+  async updateUser(username: string, changes: UserUpdate) {
+    await this.authorize('manageUsers');
+    const row = this.findUser(username);
+    if (!row) return false;
+    const updated = this.applyUserUpdate(row, changes);
+    this.ensureUserManager(this.db.usersRoles.map(u => u === row ? updated : u), this.roleDefinitions());
+    Object.assign(row, updated);
+    if (row.disabled) this.endSessions(row.username);
+    await this.save();
+    return true;
+  }
+  async deleteUser(username: string) {
+    await this.authorize('manageUsers');
+    const row = this.findUser(username);
+    if (!row) return false;
+    const remaining = this.db.usersRoles.filter(u => u !== row);
+    this.ensureUserManager(remaining, this.roleDefinitions());
+    this.db.usersRoles = remaining;
+    this.endSessions(row.username);
+    await this.save();
+    return true;
+  }
+
+  // Creates or updates accounts row by row; bad rows are reported and skipped.
+  // The whole batch is refused if it would leave nobody able to manage users.
+  async importUsers(rows: UserImportRow[]): Promise<UserImportResult> {
+    await this.authorize('manageUsers');
+    const result: UserImportResult = { created: [], updated: [], rejected: [] };
+    const users = this.db.usersRoles.map(u => ({ ...u }));
+    const seen = new Set<string>();
+    const signOut = new Set<string>();
+    for (const r of rows) {
+      const username = r.username.trim();
+      const reject = (reason: string) => result.rejected.push({ rowNumber: r.rowNumber, username, reason });
+      if (!username) { reject('缺少帳號'); continue; }
+      if (username.includes(',')) { reject('帳號不可包含逗號'); continue; }
+      if (seen.has(username.toLowerCase())) { reject('檔案中重複的帳號'); continue; }
+      seen.add(username.toLowerCase());
+      try {
+        const index = users.findIndex(u => sameName(u.username, username));
+        if (index >= 0) {
+          const updated = this.applyUserUpdate(users[index], { roles: r.roles?.length ? r.roles : undefined, name: r.name, email: r.email, active: r.active });
+          if (r.password) {
+            updated.passwordHash = await hashPassword(r.password);
+            signOut.add(updated.username);
+          }
+          if (updated.disabled) signOut.add(updated.username);
+          users[index] = updated;
+          result.updated.push(updated.username);
+        } else {
+          if (!r.password) { reject('新帳號需要初始密碼'); continue; }
+          if (!r.roles?.length) { reject('新帳號需要至少一個角色'); continue; }
+          users.push({
+            username,
+            role: this.resolveRoleNames(r.roles).join(','),
+            passwordHash: await hashPassword(r.password),
+            displayName: (r.name || '').trim(),
+            email: (r.email || '').trim(),
+            disabled: r.active === false,
+          });
+          result.created.push(username);
+        }
+      } catch (err) {
+        if (!(err instanceof UserAdminError)) throw err;
+        reject(err.message);
+      }
+    }
+    this.ensureUserManager(users, this.roleDefinitions());
+    this.db.usersRoles = users;
+    signOut.forEach(u => this.endSessions(u));
+    if (result.created.length > 0 || result.updated.length > 0) await this.save();
+    return result;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { TrackingRow } from '../types';
+import { UPCOMING_OQC_MONTHS, buildDashboardStats, weekStart } from './dashboardStats';
+
+// Wednesday; noon so the day is the same in every time zone
+const TODAY = new Date('2024-03-06T12:00:00');
+
+let nextId = 1;
+const line = (fields: Partial<TrackingRow>): TrackingRow => ({
+  id: `row-${nextId++}`,
+  model: 'M1',
+  workOrder: 'WO-1',
+  partNumber: 'P-1',
+  partName: '',
+  specification: '',
+  stage: 'SMT',
+  vendor: 'V1',
+  supplier: 'S1',
+  shortageQty: 10,
+  productionDate: '',
+  oqcDate: '',
+  isMaterialReady: false,
+  purchaserReplyDate: '',
+  purchaserRemark: '',
+  status: 'Pending',
+  purchaserUsername: '',
+  isArchived: false,
+  version: 1,
+  updatedAt: '',
+  ...fields,
+});
+
+describe('weekStart', () => {
+  it('returns the Monday of the week', () => {
+    expect(weekStart('2024-03-06')).toBe('2024-03-04');
+    expect(weekStart('2024-03-04')).toBe('2024-03-04');
+    expect(weekStart('2024-03-10')).toBe('2024-03-04'); // Sunday
+  });
+});
+
+describe('buildDashboardStats', () => {
+  it('handles no rows', () => {
+    const stats = buildDashboardStats([], TODAY);
+    expect(stats).toMatchObject({ openLines: 0, lateLines: 0, repliedLines: 0, replyRate: 0, avgReplyLeadDays: null, bySupplier: [], byVendor: [] });
+    // Empty weeks from this week to the end of the last upcoming month
+    expect(stats.weeklyReadiness[0]).toEqual({ weekStart: '2024-03-04', total: 0, ready: 0, confirmed: 0, late: 0 });
+    expect(stats.weeklyReadiness.at(-1)!.weekStart).toBe('2024-05-27');
+    expect(UPCOMING_OQC_MONTHS).toBe(3);
+  });
+
+  it('counts only open shortage lines of active work orders', () => {
+    const stats = buildDashboardStats([
+      line({ status: 'Late' }),
+      line({ status: 'Pending' }),
+      line({ status: 'Ready', isMaterialReady: true }),
+      line({ status: 'Late', isArchived: true }),
+      line({ status: 'Pending', shortageQty: 0 }),
+    ], TODAY);
+    expect(stats.openLines).toBe(2);
+    expect(stats.lateLines).toBe(1);
+    expect(stats.bySupplier).toEqual([{ name: 'S1', open: 2, late: 1 }]);
+  });
+
+  it('computes the reply rate and the average lead of replies before the need date', () => {
+    const stats = buildDashboardStats([
+      line({ status: 'Confirmed', productionDate: '2024-03-15', purchaserReplyDate: '2024-03-10' }), // 5 days early
+      line({ status: 'Late', productionDate: '2024-03-18', purchaserReplyDate: '2024/3/20' }), // 2 days late
+      line({ status: 'Confirmed', purchaserReplyDate: '2024-03-12' }), // No need date: counts as replied, no lead
+      line({ status: 'Pending', productionDate: '2024-04-01' }),
+      line({ status: 'Ready', isMaterialReady: true, purchaserReplyDate: '2024-01-01', productionDate: '2024-03-01' }),
+    ], TODAY);
+    expect(stats.repliedLines).toBe(3);
+    expect(stats.replyRate).toBe(3 / 4);
+    expect(stats.avgReplyLeadDays).toBe(1.5);
+  });
+
+  it('falls back to the OQC date as the need date', () => {
+    const stats = buildDashboardStats([line({ status: 'Confirmed', oqcDate: '2024-03-20', purchaserReplyDate: '2024-03-17' })], TODAY);
+    expect(stats.avgReplyLeadDays).toBe(3);
+  });
+
+  it('buckets lines into weeks by OQC date', () => {
+    const stats = buildDashboardStats([
+      line({ status: 'Ready', isMaterialReady: true, oqcDate: '2024-03-06' }),
+      line({ status: 'Late', oqcDate: '2024-03-10' }),
+      line({ status: 'Confirmed', oqcDate: '2024-03-11' }),
+      line({ status: 'Pending', oqcDate: '2024-03-12' }),
+      line({ status: 'Late', oqcDate: '' }), // No OQC date yet
+      line({ status: 'Late', oqcDate: '2024-02-20' }), // Before this week
+      line({ status: 'Late', oqcDate: '2024-06-03' }), // Past the upcoming months
+    ], TODAY);
+    const [thisWeek, nextWeek, ...later] = stats.weeklyReadiness;
+    expect(thisWeek).toEqual({ weekStart: '2024-03-04', total: 2, ready: 1, confirmed: 0, late: 1 });
+    expect(nextWeek).toEqual({ weekStart: '2024-03-11', total: 2, ready: 0, confirmed: 1, late: 0 });
+    expect(later.every(w => w.total === 0)).toBe(true);
+    // Readiness % as the dashboard shows it
+    expect(thisWeek.ready / thisWeek.total).toBe(0.5);
+    // Lines without an OQC date still count as open and late
+    expect(stats.lateLines).toBe(4);
+  });
+});
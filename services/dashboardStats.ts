@@ -0,0 +1,73 @@
+import { DashboardStats, ReadinessWeek, ShortageGroupStat, TrackingRow } from '../types';
+import { getNeedDate, localIsoDate, toIsoDate } from './statusEngine';
+
+// KPIs for the dashboard view. Works on plain rows so it gives the same answer for either backend.
+
+// The readiness trend covers the current OQC month and this many following ones
+export const UPCOMING_OQC_MONTHS = 3;
+
+const DAY_MS = 86400 * 1000;
+
+const isoDay = (date: Date) => date.toISOString().split('T')[0];
+
+// Monday of the week the date falls in
+export const weekStart = (iso: string): string => {
+  const date = new Date(`${iso}T00:00:00Z`);
+  return isoDay(new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS));
+};
+
+const groupOpen = (rows: TrackingRow[], key: (row: TrackingRow) => string): ShortageGroupStat[] => {
+  const groups = new Map<string, ShortageGroupStat>();
+  rows.forEach(row => {
+    const name = key(row) || '(未填)';
+    const group = groups.get(name) || { name, open: 0, late: 0 };
+    group.open++;
+    if (row.status === 'Late') group.late++;
+    groups.set(name, group);
+  });
+  const list: ShortageGroupStat[] = [];
+  groups.forEach(g => list.push(g));
+  return list.sort((a, b) => b.open - a.open || b.late - a.late || a.name.localeCompare(b.name));
+};
+
+const readinessTrend = (lines: TrackingRow[], today: Date): ReadinessWeek[] => {
+  const firstWeek = weekStart(localIsoDate(today));
+  const lastMonth = localIsoDate(new Date(today.getFullYear(), today.getMonth() + UPCOMING_OQC_MONTHS, 0));
+  const weeks = new Map<string, ReadinessWeek>();
+  for (let week = firstWeek; week <= lastMonth; week = isoDay(new Date(Date.parse(week) + 7 * DAY_MS))) {
+    weeks.set(week, { weekStart: week, total: 0, ready: 0, confirmed: 0, late: 0 });
+  }
+  lines.forEach(row => {
+    const oqc = toIsoDate(row.oqcDate);
+    const bucket = oqc ? weeks.get(weekStart(oqc)) : undefined;
+    if (!bucket) return;
+    bucket.total++;
+    if (row.status === 'Ready') bucket.ready++;
+    else if (row.status === 'Confirmed') bucket.confirmed++;
+    else if (row.status === 'Late') bucket.late++;
+  });
+  const list: ReadinessWeek[] = [];
+  weeks.forEach(w => list.push(w));
+  return list;
+};
+
+export const buildDashboardStats = (rows: TrackingRow[], today: Date = new Date()): DashboardStats => {
+  const lines = rows.filter(r => !r.isArchived && r.shortageQty > 0);
+  const open = lines.filter(r => r.status !== 'Ready');
+  const replied = open.filter(r => toIsoDate(r.purchaserReplyDate));
+
+  const leads = replied
+    .filter(r => getNeedDate(r))
+    .map(r => (Date.parse(getNeedDate(r)) - Date.parse(toIsoDate(r.purchaserReplyDate))) / DAY_MS);
+
+  return {
+    openLines: open.length,
+    lateLines: open.filter(r => r.status === 'Late').length,
+    repliedLines: replied.length,
+    replyRate: open.length === 0 ? 0 : replied.length / open.length,
+    avgReplyLeadDays: leads.length === 0 ? null : Math.round(leads.reduce((a, b) => a + b, 0) / leads.length * 10) / 10,
+    bySupplier: groupOpen(open, r => r.supplier),
+    byVendor: groupOpen(open, r => r.vendor),
+    weeklyReadiness: readinessTrend(lines, today),
+  };
+};
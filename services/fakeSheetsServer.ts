@@ -0,0 +1,193 @@
+import { IncomingMessage, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { CellValue } from './sheetSchema';
+
+// In-memory stand-in for the parts of the Sheets v4 values API that GoogleSheetService uses
+// (batchGet, get, append, batchUpdate, batchClear), so the backend can be tested without Google.
+// Point GoogleSheetConfig.apiBase at `url`; any spreadsheet id is accepted.
+
+export interface FakeSheetsOptions {
+  // Tab name -> rows, row 1 being the header. Tabs not listed here don't exist, like on a real sheet.
+  tabs?: Record<string, CellValue[][]>;
+  // When set, requests must carry it as a bearer token
+  accessToken?: string;
+  port?: number;
+}
+
+export interface FakeSheetsRequest {
+  method: string;
+  path: string; // After /v4/spreadsheets/<id>, including the query string
+  body: unknown;
+}
+
+export interface FakeSheetsServer {
+  url: string;
+  tabs: Record<string, CellValue[][]>;
+  requests: FakeSheetsRequest[];
+  // Runs before each request is handled; throwing answers it with a 500. Lets tests fail
+  // calls or slip in another client's write at an exact point.
+  onRequest: ((request: FakeSheetsRequest) => void | Promise<void>) | null;
+  close(): Promise<void>;
+}
+
+class BadRangeError extends Error {}
+
+interface ParsedRange {
+  tab: string;
+  startRow: number; // 0-based, inclusive
+  startCol: number;
+  endRow: number; // 0-based, exclusive; Infinity when open-ended
+  endCol: number;
+}
+
+const columnIndex = (letters: string) =>
+  letters.toUpperCase().split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+
+// 'Tab', 'Tab!A1', 'Tab!A5:ZZ' or 'Tab!B2:D9'
+const parseRange = (range: string, tabs: Record<string, CellValue[][]>): ParsedRange => {
+  const [rawTab, cells] = range.split('!');
+  const tab = rawTab.replace(/^'(.*)'$/, '$1');
+  if (!tabs[tab]) throw new BadRangeError(`Unable to parse range: ${range}`);
+  if (!cells) return { tab, startRow: 0, startCol: 0, endRow: Infinity, endCol: Infinity };
+  const [from, to] = cells.split(':');
+  const start = from.match(/^([A-Z]+)(\d+)?$/i);
+  const end = to ? to.match(/^([A-Z]+)(\d+)?$/i) : start;
+  if (!start || !end) throw new BadRangeError(`Unable to parse range: ${range}`);
+  return {
+    tab,
+    startCol: columnIndex(start[1]),
+    startRow: start[2] ? Number(start[2]) - 1 : 0,
+    endCol: columnIndex(end[1]) + 1,
+    endRow: end[2] ? Number(end[2]) : to ? Infinity : (start[2] ? Number(start[2]) : Infinity),
+  };
+};
+
+// The API leaves out empty trailing cells and rows
+const trim = (rows: CellValue[][]): CellValue[][] => {
+  const out = rows.map(r => {
+    const row = [...r];
+    while (row.length > 0 && (row[row.length - 1] === '' || row[row.length - 1] === undefined)) row.pop();
+    return row;
+  });
+  while (out.length > 0 && out[out.length - 1].length === 0) out.pop();
+  return out;
+};
+
+const readRange = (r: ParsedRange, tabs: Record<string, CellValue[][]>): CellValue[][] =>
+  trim(tabs[r.tab].slice(r.startRow, r.endRow).map(row => row.slice(r.startCol, r.endCol)));
+
+const writeRange = (r: ParsedRange, tabs: Record<string, CellValue[][]>, values: CellValue[][]) => {
+  const rows = tabs[r.tab];
+  values.forEach((line, i) => {
+    const row = rows[r.startRow + i] || (rows[r.startRow + i] = []);
+    line.forEach((cell, j) => {
+      while (row.length < r.startCol + j) row.push('');
+      row[r.startCol + j] = cell;
+    });
+  });
+  for (let i = 0; i < rows.length; i++) if (!rows[i]) rows[i] = [];
+  tabs[r.tab] = trim(rows);
+};
+
+const clearRange = (r: ParsedRange, tabs: Record<string, CellValue[][]>) => {
+  const rows = tabs[r.tab];
+  for (let i = r.startRow; i < Math.min(rows.length, r.endRow); i++) {
+    for (let j = r.startCol; j < Math.min(rows[i].length, r.endCol); j++) rows[i][j] = '';
+  }
+  tabs[r.tab] = trim(rows);
+};
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  let text = '';
+  req.on('data', chunk => { text += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(text ? JSON.parse(text) : null);
+    } catch (err) {
+      reject(err);
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+type Body = {
+  ranges?: string[];
+  values?: CellValue[][];
+  data?: { range: string; values: CellValue[][] }[];
+} | null;
+
+const handle = (method: string, path: string, body: Body, tabs: Record<string, CellValue[][]>) => {
+  const url = new URL(path, 'http://fake');
+  const route = decodeURIComponent(url.pathname);
+  if (method === 'GET' && route === '/values:batchGet') {
+    return { valueRanges: url.searchParams.getAll('ranges').map(range => ({ range, values: readRange(parseRange(range, tabs), tabs) })) };
+  }
+  if (method === 'POST' && route === '/values:batchUpdate') {
+    // Validate every range first: the real API applies all or nothing
+    const writes = (body?.data || []).map(d => ({ range: parseRange(d.range, tabs), values: d.values || [] }));
+    writes.forEach(w => writeRange(w.range, tabs, w.values));
+    return { totalUpdatedRows: writes.reduce((n, w) => n + w.values.length, 0) };
+  }
+  if (method === 'POST' && route === '/values:batchClear') {
+    const ranges = (body?.ranges || []).map(range => parseRange(range, tabs));
+    ranges.forEach(r => clearRange(r, tabs));
+    return { clearedRanges: body?.ranges || [] };
+  }
+  const append = route.match(/^\/values\/(.+):append$/);
+  if (method === 'POST' && append) {
+    const r = parseRange(append[1], tabs);
+    const rows = tabs[r.tab];
+    writeRange({ ...r, startRow: rows.length, startCol: 0 }, tabs, body?.values || []);
+    return { updates: { updatedRows: (body?.values || []).length } };
+  }
+  const get = route.match(/^\/values\/(.+)$/);
+  if (method === 'GET' && get) {
+    return { range: get[1], values: readRange(parseRange(get[1], tabs), tabs) };
+  }
+  return undefined;
+};
+
+export const startFakeSheetsServer = (options: FakeSheetsOptions = {}): Promise<FakeSheetsServer> => {
+  const fake: FakeSheetsServer = {
+    url: '',
+    tabs: options.tabs || {},
+    requests: [],
+    onRequest: null,
+    close: () => new Promise((resolve, reject) => server.close(err => err ? reject(err) : resolve())),
+  };
+
+  const server = createServer(async (req, res) => {
+    const match = (req.url || '').match(/^\/v4\/spreadsheets\/[^/]+(\/.*)$/);
+    if (!match) return send(res, 404, { error: { code: 404, message: 'Not found' } });
+    if (options.accessToken && req.headers.authorization !== `Bearer ${options.accessToken}`) {
+      return send(res, 401, { error: { code: 401, message: 'Request is missing valid authentication credentials' } });
+    }
+    try {
+      const request: FakeSheetsRequest = { method: req.method || 'GET', path: match[1], body: await readBody(req) };
+      fake.requests.push(request);
+      try {
+        await fake.onRequest?.(request);
+      } catch (err) {
+        return send(res, 500, { error: { code: 500, message: err instanceof Error ? err.message : String(err) } });
+      }
+      const result = handle(request.method, request.path, request.body as Body, fake.tabs);
+      if (result === undefined) return send(res, 404, { error: { code: 404, message: `No route for ${request.method} ${request.path}` } });
+      send(res, 200, result);
+    } catch (err) {
+      const status = err instanceof BadRangeError || err instanceof SyntaxError ? 400 : 500;
+      send(res, status, { error: { code: status, message: err instanceof Error ? err.message : String(err) } });
+    }
+  });
+
+  return new Promise(resolve => {
+    server.listen(options.port || 0, '127.0.0.1', () => {
+      fake.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      resolve(fake);
+    });
+  });
+};
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TrackingRow } from '../types';
+import { FakeSheetsServer, startFakeSheetsServer } from './fakeSheetsServer';
+import { GoogleSheetService, SheetApiError } from './googleSheetService';
+import { ConflictError } from './serviceErrors';
+import { INITIAL_DB } from './mockData';
+import { CHANGE_HISTORY_TAB, CellValue, SHEET_TABS, SHEET_TAB_KEYS, TRACKING_SCHEDULE_TAB, USERS_ROLES_TAB, tabValues, valuesToRows } from './sheetSchema';
+
+const TOKEN = 'test-token';
+const PASSWORD = 'changeme';
+
+let fake: FakeSheetsServer;
+
+const seedTabs = () => {
+  const tabs: Record<string, CellValue[][]> = {};
+  SHEET_TAB_KEYS.forEach(k => { tabs[SHEET_TABS[k].name] = tabValues(INITIAL_DB, k); });
+  return tabs;
+};
+
+const connect = (accessToken: string = TOKEN) =>
+  new GoogleSheetService({ spreadsheetId: 'sheet-1', apiBase: fake.url, accessToken });
+
+const trackingRows = (): TrackingRow[] => valuesToRows(TRACKING_SCHEDULE_TAB, fake.tabs[TRACKING_SCHEDULE_TAB.name]);
+const usernames = () => valuesToRows(USERS_ROLES_TAB, fake.tabs[USERS_ROLES_TAB.name]).map(u => u.username);
+const calls = () => fake.requests.map(r => `${r.method} ${r.path.split('?')[0]}`);
+
+beforeEach(async () => {
+  fake = await startFakeSheetsServer({ tabs: seedTabs(), accessToken: TOKEN });
+});
+
+afterEach(async () => {
+  await fake.close();
+});
+
+describe('GoogleSheetService against the fake Sheets server', () => {
+  it('reads the tabs and writes an edit back', async () => {
+    const service = connect();
+    expect(await service.login('purchaser', PASSWORD)).not.toBeNull();
+    const rowId = INITIAL_DB.trackingSchedule[0].id;
+
+    await service.updateDeliveryDate(rowId, '2031-01-01');
+
+    const saved = trackingRows().find(r => r.id === rowId)!;
+    expect(saved.purchaserReplyDate).toBe('2031-01-01');
+    expect(saved.version).toBe(INITIAL_DB.trackingSchedule[0].version + 1);
+    // Once the history tab has rows, it only grows, so further entries are appended rather than rewritten
+    fake.requests = [];
+    await service.updatePurchaserRemark(rowId, 'on the way');
+    expect(calls()).toContain('POST /values/Change_History:append');
+    expect(fake.tabs.Change_History).toHaveLength(3);
+  });
+
+  it('writes before clearing, and only clears the rows below the new data', async () => {
+    const service = connect();
+    await service.login('admin', PASSWORD);
+    fake.requests = [];
+
+    await service.deleteUser('business');
+
+    // Reload, re-read of the rewritten tab just before writing, write, clear
+    expect(calls()).toEqual(['GET /values:batchGet', 'GET /values:batchGet', 'POST /values:batchUpdate', 'POST /values:batchClear']);
+    expect(fake.requests[3].body).toEqual({ ranges: [`Users_Roles!A${INITIAL_DB.usersRoles.length + 1}:ZZ`] });
+    expect(usernames()).toEqual(INITIAL_DB.usersRoles.map(u => u.username).filter(u => u !== 'business'));
+  });
+
+  it('never leaves a tab empty while a save is in flight', async () => {
+    const service = connect();
+    await service.login('admin', PASSWORD);
+    const seen: number[] = [];
+    fake.onRequest = () => { seen.push(usernames().length); };
+
+    await service.deleteUser('business');
+
+    expect(Math.min(...seen)).toBeGreaterThan(0);
+  });
+
+  it('keeps the sheet as it was when the write fails', async () => {
+    const service = connect();
+    await service.login('admin', PASSWORD);
+    const before = JSON.stringify(fake.tabs);
+    fake.onRequest = request => {
+      if (request.path.startsWith('/values:batchUpdate')) throw new Error('backend unavailable');
+    };
+
+    await expect(service.deleteUser('business')).rejects.toBeInstanceOf(SheetApiError);
+    expect(JSON.stringify(fake.tabs)).toBe(before);
+  });
+
+  it('sends the access token', async () => {
+    await expect(connect('wrong-token').login('admin', PASSWORD)).rejects.toMatchObject({ status: 401 });
+  });
+
+  describe('when another client saves between our read and our write', () => {
+    const [first, second] = INITIAL_DB.trackingSchedule;
+
+    // Runs `other` right before the second read of the next call, i.e. after its reload() and before its save()
+    const interleave = (other: () => Promise<unknown>) => {
+      let reads = 0;
+      fake.onRequest = async request => {
+        if (request.method === 'GET' && ++reads === 2) await other();
+      };
+    };
+
+    it('keeps their edit to another row', async () => {
+      const a = connect();
+      const b = connect();
+      await a.login('purchaser', PASSWORD);
+      await b.login('admin', PASSWORD);
+      interleave(() => b.updateDeliveryDate(second.id, '2031-02-02'));
+
+      await a.updateDeliveryDate(first.id, '2031-01-01');
+
+      const rows = trackingRows();
+      expect(rows.find(r => r.id === first.id)!.purchaserReplyDate).toBe('2031-01-01');
+      expect(rows.find(r => r.id === second.id)!.purchaserReplyDate).toBe('2031-02-02');
+    });
+
+    it('refuses to overwrite their edit to the same row', async () => {
+      const a = connect();
+      const b = connect();
+      await a.login('purchaser', PASSWORD);
+      await b.login('admin', PASSWORD);
+      interleave(() => b.updateDeliveryDate(first.id, '2031-02-02'));
+
+      const error = await a.updateDeliveryDate(first.id, '2031-01-01', first.version).catch(err => err);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.current.purchaserReplyDate).toBe('2031-02-02');
+      expect(trackingRows().find(r => r.id === first.id)!.purchaserReplyDate).toBe('2031-02-02');
+    });
+
+    it('logs no history for the refused edit', async () => {
+      const a = connect();
+      const b = connect();
+      await a.login('purchaser', PASSWORD);
+      await b.login('admin', PASSWORD);
+      // With history on the sheet, new entries are appended rather than merged
+      await a.updatePurchaserRemark(second.id, 'earlier');
+      interleave(() => b.updateDeliveryDate(first.id, '2031-02-02'));
+
+      await expect(a.updateDeliveryDate(first.id, '2031-01-01', first.version)).rejects.toBeInstanceOf(ConflictError);
+
+      const history = valuesToRows(CHANGE_HISTORY_TAB, fake.tabs[CHANGE_HISTORY_TAB.name]);
+      expect(history.map(h => h.newValue)).toEqual(['earlier', '2031-02-02']);
+    });
+
+    it('keeps sessions of users who signed in meanwhile', async () => {
+      const a = connect();
+      const b = connect();
+      await a.login('admin', PASSWORD);
+      interleave(() => b.login('purchaser', PASSWORD));
+
+      await a.logout();
+
+      expect(await b.queryTracking({})).toHaveProperty('rows');
+    });
+  });
+});
+
@@ -0,0 +1,240 @@
+import { SheetDatabase } from '../types';
+import { BaseSheetService } from './baseSheetService';
+import { ConcurrentEditError, ConflictError } from './serviceErrors';
+import { CellValue, SHEET_TABS, SHEET_TAB_KEYS, SheetTabKey, emptyDatabase, mergeTab, readTab, tabValues, valuesToRows } from './sheetSchema';
+
+// The parts of the Google Identity Services token client we use
+interface TokenResponse {
+  access_token: string;
+  expires_in?: number | string;
+  error?: string;
+}
+
+interface TokenClientConfig {
+  client_id: string;
+  scope: string;
+  callback: (response: TokenResponse) => void;
+}
+
+declare global {
+  interface Window {
+    google?: {
+      accounts?: {
+        oauth2?: {
+          initTokenClient(config: TokenClientConfig): { requestAccessToken(options?: { prompt?: string }): void };
+        };
+      };
+    };
+  }
+}
+
+interface ValueRange {
+  range?: string;
+  values?: CellValue[][];
+}
+
+export interface GoogleSheetConfig {
+  spreadsheetId: string;
+  // Override to point at a local fake Sheets server, e.g. http://localhost:8787
+  apiBase?: string;
+  // Static bearer token (fake server / service proxies). Takes priority over clientId.
+  accessToken?: string;
+  // OAuth client id for the Google Identity Services token flow (the GSI client is loaded on first use)
+  clientId?: string;
+}
+
+const DEFAULT_API_BASE = 'https://sheets.googleapis.com';
+const SHEETS_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+const GSI_CLIENT_URL = 'https://accounts.google.com/gsi/client';
+// How often Tracking_Schedule is re-read to pick up other users' edits while someone is subscribed
+const POLL_INTERVAL_MS = 15_000;
+
+// Only injected when the OAuth token flow is actually used, so the mock backend never touches the network
+let gsiLoading: Promise<void> | null = null;
+const loadIdentityServices = () => {
+  if (window.google?.accounts?.oauth2) return Promise.resolve();
+  gsiLoading = gsiLoading || new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = GSI_CLIENT_URL;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => { gsiLoading = null; reject(new SheetApiError(0, 'Google Identity Services 無法載入')); };
+    document.head.appendChild(script);
+  });
+  return gsiLoading;
+};
+
+export class SheetApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'SheetApiError';
+  }
+}
+
+export class GoogleSheetService extends BaseSheetService {
+  private config: GoogleSheetConfig;
+  private token: { value: string; expiresAt: number } | null = null;
+  // Serialized copy of each tab as last read/written, used to skip writing unchanged tabs
+  private snapshot: Partial<Record<SheetTabKey, string>> = {};
+  // The same rows, as the base our changes are merged from when someone else saved in between
+  private baseline: SheetDatabase = emptyDatabase();
+  private snapshotLength: Partial<Record<SheetTabKey, number>> = {};
+  private pollTimer: number | null = null;
+
+  constructor(config: GoogleSheetConfig) {
+    super();
+    this.config = config;
+    this.db = emptyDatabase();
+  }
+
+  private get baseUrl() {
+    const base = (this.config.apiBase || DEFAULT_API_BASE).replace(/\/$/, '');
+    return `${base}/v4/spreadsheets/${encodeURIComponent(this.config.spreadsheetId)}`;
+  }
+
+  private async getAccessToken(): Promise<string | null> {
+    if (this.config.accessToken) return this.config.accessToken;
+    if (!this.config.clientId) return null;
+    if (this.token && this.token.expiresAt > Date.now() + 60_000) return this.token.value;
+
+    await loadIdentityServices();
+    const oauth2 = window.google?.accounts?.oauth2;
+    if (!oauth2) throw new SheetApiError(0, 'Google Identity Services 尚未載入');
+    const clientId = this.config.clientId;
+    const response = await new Promise<TokenResponse>((resolve, reject) => {
+      const client = oauth2.initTokenClient({
+        client_id: clientId,
+        scope: SHEETS_SCOPE,
+        callback: resp => resp.error ? reject(new SheetApiError(401, resp.error)) : resolve(resp),
+      });
+      client.requestAccessToken({ prompt: this.token ? '' : 'consent' });
+    });
+    this.token = { value: response.access_token, expiresAt: Date.now() + Number(response.expires_in || 3600) * 1000 };
+    return this.token.value;
+  }
+
+  private async request<T = unknown>(path: string, init: RequestInit = {}): Promise<T | null> {
+    const token = await this.getAccessToken();
+    const res = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(init.headers || {}),
+      },
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new SheetApiError(res.status, `Sheets API ${res.status}: ${text || res.statusText}`);
+    }
+    return res.status === 204 ? null : res.json() as Promise<T>;
+  }
+
+  // The given tabs as stored on the sheet now; the other tabs are left empty
+  private async readTabs(keys: SheetTabKey[]) {
+    const params = new URLSearchParams({ valueRenderOption: 'UNFORMATTED_VALUE', majorDimension: 'ROWS' });
+    keys.forEach(k => params.append('ranges', SHEET_TABS[k].name));
+    const data = await this.request<{ valueRanges?: ValueRange[] }>(`/values:batchGet?${params.toString()}`);
+    const ranges = data?.valueRanges || [];
+
+    const db = emptyDatabase();
+    keys.forEach((k, i) => readTab(db, k, ranges[i]?.values || []));
+    db.usersRoles = db.usersRoles.filter(u => u.username);
+    return db;
+  }
+
+  protected async reload() {
+    this.db = await this.readTabs(SHEET_TAB_KEYS);
+    SHEET_TAB_KEYS.forEach(k => this.takeSnapshot(k));
+  }
+
+  protected startWatching() {
+    this.pollTimer = window.setInterval(() => {
+      // A failed poll (offline, token expired...) is simply retried on the next tick
+      this.poll().catch(() => {});
+    }, POLL_INTERVAL_MS);
+  }
+
+  protected stopWatching() {
+    if (this.pollTimer !== null) window.clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  // Reads only Tracking_Schedule and compares it with the copy we last read or wrote,
+  // so our own saves never count as a change
+  private async poll() {
+    if (document.hidden || this.snapshot.trackingSchedule === undefined) return;
+    // Never pop up the OAuth consent from a background timer
+    if (!this.config.accessToken && this.config.clientId && !(this.token && this.token.expiresAt > Date.now() + 60_000)) return;
+    const tab = SHEET_TABS.trackingSchedule;
+    const params = new URLSearchParams({ valueRenderOption: 'UNFORMATTED_VALUE', majorDimension: 'ROWS' });
+    const data = await this.request<ValueRange>(`/values/${encodeURIComponent(tab.name)}?${params.toString()}`);
+    const rows = valuesToRows(tab, data?.values || []);
+    if (JSON.stringify(rows) !== this.snapshot.trackingSchedule) this.notifyChange();
+  }
+
+  private takeSnapshot(k: SheetTabKey) {
+    this.snapshot[k] = JSON.stringify(this.db[k]);
+    this.snapshotLength[k] = this.db[k].length;
+    readTab(this.baseline, k, tabValues(this.db, k));
+  }
+
+  // True when the tab only grew at the end (e.g. Change_History), so rows can be appended instead of rewritten
+  private isAppendOnly(k: SheetTabKey) {
+    const oldLength = this.snapshotLength[k] || 0;
+    const rows = this.db[k];
+    return oldLength > 0 && rows.length > oldLength && JSON.stringify(rows.slice(0, oldLength)) === this.snapshot[k];
+  }
+
+  protected async save() {
+    const dirty = SHEET_TAB_KEYS.filter(k => this.snapshot[k] !== JSON.stringify(this.db[k]));
+    if (dirty.length === 0) return;
+
+    const appended = dirty.filter(k => this.isAppendOnly(k));
+    const rewrite = dirty.filter(k => !appended.includes(k));
+    if (rewrite.length > 0) {
+      // May refuse the whole save; nothing has been written yet then, history included
+      await this.mergeConcurrentEdits(rewrite);
+
+      // Overwrite in place first, then clear what is left below the new data (rows removed locally, e.g. by
+      // replace imports). A reader in between never sees an empty tab, and a failed write loses nothing.
+      const values = rewrite.map(k => tabValues(this.db, k));
+      await this.request('/values:batchUpdate', {
+        method: 'POST',
+        body: JSON.stringify({
+          valueInputOption: 'RAW',
+          data: rewrite.map((k, i) => ({ range: `${SHEET_TABS[k].name}!A1`, majorDimension: 'ROWS', values: values[i] })),
+        }),
+      });
+      await this.request('/values:batchClear', {
+        method: 'POST',
+        body: JSON.stringify({ ranges: rewrite.map((k, i) => `${SHEET_TABS[k].name}!A${values[i].length + 1}:ZZ`) }),
+      });
+      rewrite.forEach(k => this.takeSnapshot(k));
+    }
+
+    // Change history and the like go last, so they only ever describe edits that were written
+    for (const k of appended) {
+      const values = tabValues(this.db, k, this.snapshotLength[k]).slice(1);
+      await this.request(`/values/${encodeURIComponent(SHEET_TABS[k].name)}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`, {
+        method: 'POST',
+        body: JSON.stringify({ majorDimension: 'ROWS', values }),
+      });
+      this.takeSnapshot(k);
+    }
+  }
+
+  // The Sheets API has no conditional write, so the version checks made on our copy could be outdated by now.
+  // Re-read the tabs about to be rewritten and put our changes on top of whatever others saved since reload();
+  // when both sides changed the same row, refuse instead of overwriting their edit.
+  private async mergeConcurrentEdits(keys: SheetTabKey[]) {
+    const remote = await this.readTabs(keys);
+    for (const k of keys) {
+      const conflict = mergeTab(k, this.baseline, this.db, remote);
+      if (!conflict) continue;
+      const current = k === 'trackingSchedule' ? remote.trackingSchedule.find(r => r.id === conflict) : undefined;
+      if (current) throw new ConflictError('STALE_VERSION', { ...current }, current.version || 0, '此資料已被其他人修改，請確認後再儲存');
+      throw new ConcurrentEditError('ROW_CHANGED', SHEET_TABS[k].name, `「${SHEET_TABS[k].name}」的同一筆資料剛被其他人修改，請重新整理後再試`);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { ERPRawRow, ERPUploadComparison, ImportDiff, ImportDiffLine, TrackingRow, WODetailChange } from '../types';
+
+// Placeholder row importWODetails creates for a work order that has no shortages yet
+export const SKELETON_PART = 'WO_INFO_ONLY';
+
+const WO_DETAIL_FIELDS: WODetailChange['field'][] = ['model', 'vendor', 'stage', 'productPartNumber', 'productionDate'];
+
+const lineKey = (r: TrackingRow) => `${r.workOrder}-${r.partNumber}`;
+
+const toLine = (r: TrackingRow): ImportDiffLine => ({ workOrder: r.workOrder, partNumber: r.partNumber, partName: r.partName });
+
+// Compares the tracking schedule before and after an import, one line per (workOrder, partNumber)
+export const diffTracking = (before: TrackingRow[], after: TrackingRow[]): ImportDiff => {
+  const diff: ImportDiff = { added: [], removed: [], qtyChanged: [], purchaserDataLost: [], repliesToRecheck: [], newWorkOrders: [], woDetailChanges: [] };
+
+  const beforeMap = new Map<string, TrackingRow>();
+  const afterMap = new Map<string, TrackingRow>();
+  before.filter(r => r.partNumber !== SKELETON_PART).forEach(r => beforeMap.set(lineKey(r), r));
+  after.filter(r => r.partNumber !== SKELETON_PART).forEach(r => afterMap.set(lineKey(r), r));
+
+  afterMap.forEach((next, key) => {
+    const prev = beforeMap.get(key);
+    if (!prev) diff.added.push({ ...toLine(next), newQty: next.shortageQty });
+    else if (prev.shortageQty !== next.shortageQty) {
+      diff.qtyChanged.push({ ...toLine(next), oldQty: prev.shortageQty, newQty: next.shortageQty });
+      if (next.purchaserReplyDate && next.purchaserReplyDate === prev.purchaserReplyDate) {
+        diff.repliesToRecheck.push({ ...toLine(next), oldQty: prev.shortageQty, newQty: next.shortageQty });
+      }
+    }
+  });
+
+  beforeMap.forEach((prev, key) => {
+    const next = afterMap.get(key);
+    if (!next) diff.removed.push({ ...toLine(prev), oldQty: prev.shortageQty });
+    const lostReply = prev.purchaserReplyDate && prev.purchaserReplyDate !== next?.purchaserReplyDate;
+    const lostRemark = prev.purchaserRemark && prev.purchaserRemark !== next?.purchaserRemark;
+    if (lostReply || lostRemark) {
+      diff.purchaserDataLost.push({
+        ...toLine(prev),
+        oldQty: prev.shortageQty,
+        newQty: next?.shortageQty,
+        lostReplyDate: lostReply ? prev.purchaserReplyDate : undefined,
+        lostRemark: lostRemark ? prev.purchaserRemark : undefined,
+      });
+    }
+  });
+
+  // Work-order level metadata, compared on the first row of each WO
+  const firstByWO = (rows: TrackingRow[]) => {
+    const map = new Map<string, TrackingRow>();
+    rows.forEach(r => { if (!map.has(r.workOrder)) map.set(r.workOrder, r); });
+    return map;
+  };
+  const beforeWO = firstByWO(before);
+  firstByWO(after).forEach((next, workOrder) => {
+    const prev = beforeWO.get(workOrder);
+    if (!prev) {
+      diff.newWorkOrders.push(workOrder);
+      return;
+    }
+    WO_DETAIL_FIELDS.forEach(field => {
+      const oldValue = String(prev[field] ?? '');
+      const newValue = String(next[field] ?? '');
+      if (oldValue !== newValue) diff.woDetailChanges.push({ workOrder, field, oldValue, newValue });
+    });
+  });
+
+  return diff;
+};
+
+// Compares two raw ERP uploads line by line; qty is summed if a file lists the same part twice
+export const compareERPRows = (fromRows: ERPRawRow[], toRows: ERPRawRow[]): ERPUploadComparison => {
+  const collect = (rows: ERPRawRow[]) => {
+    const map = new Map<string, ImportDiffLine & { qty: number }>();
+    rows.forEach(r => {
+      const key = `${r.workOrder}-${r.partNumber}`;
+      const line = map.get(key);
+      if (line) line.qty += r.shortageQty;
+      else map.set(key, { workOrder: r.workOrder, partNumber: r.partNumber, partName: r.partName, qty: r.shortageQty });
+    });
+    return map;
+  };
+  const from = collect(fromRows);
+  const to = collect(toRows);
+  const result: ERPUploadComparison = { appeared: [], disappeared: [], qtyChanged: [], unchanged: 0 };
+
+  to.forEach(({ qty, ...line }, key) => {
+    const prev = from.get(key);
+    if (!prev) result.appeared.push({ ...line, newQty: qty });
+    else if (prev.qty !== qty) result.qtyChanged.push({ ...line, oldQty: prev.qty, newQty: qty });
+    else result.unchanged++;
+  });
+  from.forEach(({ qty, ...line }, key) => {
+    if (!to.has(key)) result.disappeared.push({ ...line, oldQty: qty });
+  });
+  return result;
+};
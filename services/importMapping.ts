@@ -0,0 +1,166 @@
+import { ERPRawRow, ImportFieldMapping, ImportProfile, ImportTarget, ImportTransform, WODetailInput } from '../types';
+import { excelSerialToIsoDate } from './statusEngine';
+
+// Column mapping for ERP Excel exports. The built-in aliases cover the download templates;
+// anything else is mapped once by the user and saved as an import profile.
+
+export interface ImportFieldSpec {
+  field: string;
+  label: string;
+  required: boolean;
+  transform: ImportTransform;
+  defaultValue: string;
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportFieldSpec[]> = {
+  woDetails: [
+    { field: 'workOrder', label: '工單號碼', required: true, transform: 'text', defaultValue: '', aliases: ['工單號碼', 'WO', '工單', 'Work Order'] },
+    { field: 'model', label: '機種', required: false, transform: 'text', defaultValue: '', aliases: ['機種', 'Model'] },
+    { field: 'vendor', label: '外包廠商', required: false, transform: 'text', defaultValue: '', aliases: ['外包廠商', 'Vendor'] },
+    { field: 'stage', label: '階級', required: false, transform: 'text', defaultValue: 'SMT', aliases: ['階級', 'Stage'] },
+    { field: 'productPartNumber', label: '品號', required: false, transform: 'text', defaultValue: '', aliases: ['品號', 'Product Part No'] },
+    { field: 'productionDate', label: '生產日期', required: false, transform: 'date', defaultValue: '', aliases: ['生產日期', 'Production Date'] },
+  ],
+  shortages: [
+    { field: 'workOrder', label: '工單號碼', required: true, transform: 'text', defaultValue: '', aliases: ['工單號碼', 'WO', '工單', 'Work Order'] },
+    { field: 'partNumber', label: '料號', required: true, transform: 'text', defaultValue: '', aliases: ['料號', 'Part No', 'Part Number'] },
+    { field: 'partName', label: '品名', required: false, transform: 'text', defaultValue: '', aliases: ['品名', 'Part Name'] },
+    { field: 'specification', label: '規格', required: false, transform: 'text', defaultValue: '', aliases: ['規格', 'Spec', 'Specification'] },
+    { field: 'supplier', label: '供應商', required: false, transform: 'text', defaultValue: '', aliases: ['供應商', 'Supplier'] },
+    { field: 'shortageQty', label: '欠料數量', required: false, transform: 'number', defaultValue: '0', aliases: ['欠料數量', 'Qty', 'Shortage Qty'] },
+  ],
+  replies: [
+    { field: 'workOrder', label: '工單號碼', required: true, transform: 'text', defaultValue: '', aliases: ['工單號碼', 'WO', '工單', 'Work Order'] },
+    { field: 'partNumber', label: '料號', required: true, transform: 'text', defaultValue: '', aliases: ['料號', 'Part No', 'Part Number'] },
+    { field: 'rowId', label: '列編號', required: false, transform: 'text', defaultValue: '', aliases: ['列編號', 'Row ID'] },
+    { field: 'replyDate', label: '回覆交期', required: false, transform: 'date', defaultValue: '', aliases: ['回覆交期', '採購回覆', '交期', 'Reply Date', 'Delivery Date', 'ETA'] },
+    { field: 'remark', label: '備註', required: false, transform: 'text', defaultValue: '', aliases: ['備註', 'Remark', 'Remarks'] },
+  ],
+};
+
+// Reference columns a target's files usually carry (e.g. the supplier report's part details); not worth asking about
+const INFORMATIONAL_HEADERS: Partial<Record<ImportTarget, string[]>> = {
+  replies: ['機種', '品名', '規格', '供應商', '欠料數量', '需求生產日', '報表時間'],
+};
+
+export const IMPORT_TRANSFORM_LABELS: Record<ImportTransform, string> = {
+  text: '文字',
+  upper: '轉大寫',
+  number: '數字',
+  date: '日期',
+};
+
+// Case, spacing and punctuation differences between ERP versions shouldn't matter
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-.()（）:：]/g, '');
+
+export const findHeader = (headers: string[], candidates: string[]) => {
+  const wanted = candidates.map(normalizeHeader).filter(Boolean);
+  return headers.find(h => wanted.includes(normalizeHeader(h))) || '';
+};
+
+export interface MappingSuggestion {
+  mappings: ImportFieldMapping[];
+  profile: ImportProfile | null; // Saved profile the suggestion started from
+  unknownHeaders: string[]; // Columns neither mapped nor known to the profile
+  missingRequired: string[]; // Labels of required fields without a column or default
+}
+
+export const describeMapping = (target: ImportTarget, headers: string[], mappings: ImportFieldMapping[], knownHeaders: string[] = []) => {
+  const used = new Set([...mappings.map(m => m.source), ...knownHeaders, ...(INFORMATIONAL_HEADERS[target] || [])].filter(Boolean));
+  return {
+    unknownHeaders: headers.filter(h => !used.has(h)),
+    missingRequired: IMPORT_FIELDS[target]
+      .filter(spec => {
+        const m = mappings.find(x => x.field === spec.field);
+        return spec.required && !(m && ((m.source && headers.includes(m.source)) || m.defaultValue));
+      })
+      .map(spec => spec.label),
+  };
+};
+
+// Picks the saved profile that covers most of the file's columns, falling back to the built-in aliases
+export const suggestMapping = (target: ImportTarget, headers: string[], profiles: ImportProfile[]): MappingSuggestion => {
+  const coverage = (p: ImportProfile) => p.mappings.filter(m => m.source && headers.includes(m.source)).length;
+  const profile = profiles
+    .filter(p => p.target === target && coverage(p) > 0)
+    .sort((a, b) => coverage(b) - coverage(a))[0] || null;
+
+  const mappings = IMPORT_FIELDS[target].map(spec => {
+    const saved = profile?.mappings.find(m => m.field === spec.field);
+    if (saved && (!saved.source || headers.includes(saved.source))) return { ...saved };
+    return {
+      field: spec.field,
+      source: findHeader(headers, [spec.field, spec.label, ...spec.aliases]),
+      defaultValue: saved?.defaultValue ?? spec.defaultValue,
+      transform: saved?.transform ?? spec.transform,
+    };
+  });
+  return { mappings, profile, ...describeMapping(target, headers, mappings, profile?.knownHeaders) };
+};
+
+const toDate = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  const serial = excelSerialToIsoDate(value);
+  if (serial) return serial;
+  const clean = String(value).trim();
+  const ymd = clean.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (ymd) return `${ymd[1]}-${ymd[2].padStart(2, '0')}-${ymd[3].padStart(2, '0')}`;
+  const mdy = clean.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (mdy) return `${mdy[3]}-${mdy[1].padStart(2, '0')}-${mdy[2].padStart(2, '0')}`;
+  return '';
+};
+
+export const applyTransform = (value: unknown, transform: ImportTransform): string | number => {
+  switch (transform) {
+    case 'number': {
+      const n = Number(String(value ?? '').replace(/,/g, '').trim());
+      return isNaN(n) ? 0 : n;
+    }
+    case 'date': return toDate(value);
+    case 'upper': return String(value ?? '').trim().toUpperCase();
+    default: return String(value ?? '').trim();
+  }
+};
+
+// Cell value for a mapped field before its transform, falling back to the default for blank cells
+export const rawValue = (row: Record<string, unknown>, m: ImportFieldMapping): unknown => {
+  const raw = m.source ? row[m.source] : undefined;
+  const blank = raw === undefined || raw === null || String(raw).trim() === '';
+  return blank ? m.defaultValue : raw;
+};
+
+const mapRow = (row: Record<string, unknown>, mappings: ImportFieldMapping[]) => {
+  const out: Record<string, string | number> = {};
+  mappings.forEach(m => { out[m.field] = applyTransform(rawValue(row, m), m.transform); });
+  return out;
+};
+
+export const mapWODetailRows = (rows: Record<string, unknown>[], mappings: ImportFieldMapping[]): WODetailInput[] =>
+  rows.map(row => {
+    const r = mapRow(row, mappings);
+    return {
+      workOrder: String(r.workOrder ?? ''),
+      model: String(r.model ?? ''),
+      vendor: String(r.vendor ?? ''),
+      stage: String(r.stage || 'SMT'),
+      productPartNumber: String(r.productPartNumber ?? ''),
+      productionDate: String(r.productionDate ?? ''),
+    };
+  }).filter(r => r.workOrder);
+
+export const mapShortageRows = (rows: Record<string, unknown>[], mappings: ImportFieldMapping[]): Omit<ERPRawRow, 'id'>[] =>
+  rows.map(row => {
+    const r = mapRow(row, mappings);
+    return {
+      model: '',
+      workOrder: String(r.workOrder ?? ''),
+      partNumber: String(r.partNumber ?? ''),
+      partName: String(r.partName ?? ''),
+      specification: String(r.specification ?? ''),
+      supplier: String(r.supplier ?? ''),
+      shortageQty: Number(r.shortageQty) || 0,
+      requiredDate: '',
+      uploadBatch: ''
+    };
+  }).filter(r => r.workOrder && r.partNumber);
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { ImportProfile } from '../types';
+import { decodeCsv, guessSheet, isCsvFile, parseCsv, readImportFile, tableToSheet } from './importParser';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('parseCsv', () => {
+  it('splits plain comma-separated lines', () => {
+    expect(parseCsv('工單號碼,料號\nWO-1,P-1\n')).toEqual([['工單號碼', '料號'], ['WO-1', 'P-1']]);
+  });
+
+  it('keeps delimiters and doubled quotes inside quoted fields', () => {
+    expect(parseCsv('品名,規格\n"Cap, 10uF","0402 ""X7R"""')).toEqual([['品名', '規格'], ['Cap, 10uF', '0402 "X7R"']]);
+  });
+
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseCsv('料號,備註\r\nP-1,"first\r\nsecond"\r\nP-2,ok\r\n')).toEqual([
+      ['料號', '備註'],
+      ['P-1', 'first\r\nsecond'],
+      ['P-2', 'ok'],
+    ]);
+  });
+
+  it('detects tab and semicolon delimiters from the header line', () => {
+    expect(parseCsv('工單號碼\t料號\nWO-1\tP-1,P-2')).toEqual([['工單號碼', '料號'], ['WO-1', 'P-1,P-2']]);
+    expect(parseCsv('工單號碼;料號;欠料數量\nWO-1;P-1;1,5')).toEqual([['工單號碼', '料號', '欠料數量'], ['WO-1', 'P-1', '1,5']]);
+  });
+
+  it('ignores delimiters inside quoted header cells when detecting', () => {
+    expect(parseCsv('"Qty; pcs",料號\n3,P-1')).toEqual([['Qty; pcs', '料號'], ['3', 'P-1']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,b,c\n1,,3')).toEqual([['a', 'b', 'c'], ['1', '', '3']]);
+  });
+});
+
+describe('decodeCsv', () => {
+  it('strips the UTF-8 BOM so the first header matches', () => {
+    const { text, encoding } = decodeCsv(new Uint8Array([0xef, 0xbb, 0xbf, ...utf8('工單號碼,料號')]));
+    expect(encoding).toBe('utf-8');
+    expect(parseCsv(text)[0][0]).toBe('工單號碼');
+  });
+
+  it('reads UTF-16LE with a BOM', () => {
+    const units = Array.from('料號,品名', c => c.charCodeAt(0));
+    const bytes = new Uint8Array([0xff, 0xfe, ...units.flatMap(u => [u & 0xff, u >> 8])]);
+    expect(decodeCsv(bytes)).toEqual({ text: '料號,品名', encoding: 'utf-16le' });
+  });
+
+  it('reads UTF-8 without a BOM', () => {
+    expect(decodeCsv(utf8('供應商'))).toEqual({ text: '供應商', encoding: 'utf-8' });
+  });
+
+  it('falls back to Big5 when the bytes are not UTF-8', () => {
+    // 料號 in Big5
+    expect(decodeCsv(new Uint8Array([0xae, 0xc6, 0xb8, 0xb9]))).toEqual({ text: '料號', encoding: 'big5' });
+  });
+});
+
+describe('tableToSheet', () => {
+  it('uses the first non-empty line as the header and skips blank lines', () => {
+    const sheet = tableToSheet('S', [['', ''], [' 料號 ', '品名', ''], ['P-1', ''], ['', ''], ['P-2', 'Cap']]);
+    expect(sheet.headers).toEqual(['料號', '品名']);
+    expect(sheet.rows).toEqual([{ 料號: 'P-1' }, { 料號: 'P-2', 品名: 'Cap' }]);
+    // 0-based sheet rows, for the validation report
+    expect(sheet.rows.map(r => (r as { __rowNum__?: number }).__rowNum__)).toEqual([2, 4]);
+    expect(Object.keys(sheet.rows[0])).toEqual(['料號']);
+  });
+
+  it('returns an empty sheet for an empty table', () => {
+    expect(tableToSheet('S', [['']])).toEqual({ name: 'S', headers: [], rows: [] });
+  });
+});
+
+describe('readImportFile', () => {
+  it('treats .csv and .txt as CSV', () => {
+    expect(isCsvFile('ERP.CSV')).toBe(true);
+    expect(isCsvFile('export.txt')).toBe(true);
+    expect(isCsvFile('export.xlsx')).toBe(false);
+  });
+
+  it('reads a CSV file into one sheet named after the file', async () => {
+    const file = new File([new Uint8Array([0xef, 0xbb, 0xbf]), '工單號碼;料號\nWO-1;P-1\n'], '欠料.csv');
+    const parsed = await readImportFile(file);
+    expect(parsed).toMatchObject({ fileName: '欠料.csv', format: 'csv', encoding: 'utf-8' });
+    expect(parsed.sheets).toHaveLength(1);
+    expect(parsed.sheets[0]).toMatchObject({ name: '欠料', headers: ['工單號碼', '料號'], rows: [{ 工單號碼: 'WO-1', 料號: 'P-1' }] });
+  });
+
+  it('reads every sheet of a workbook and picks the right one per import target', async () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['ERP export'], ['2024-03-06']]), '封面');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+      ['工單號碼', '機種', '外包廠商', '生產日期'],
+      ['WO-1', 'M1', 'V1', '2024-03-15'],
+    ]), '工單');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+      ['工單號碼', '料號', '品名', '欠料數量'],
+      ['WO-1', 'P-1', 'Cap', 100],
+      ['WO-1', 'P-2', 'Res', 5],
+    ]), '欠料');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([]), '空白');
+    const bytes = XLSX.write(wb, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+
+    const parsed = await readImportFile(new File([bytes], 'erp.xlsx'));
+
+    expect(parsed).toMatchObject({ format: 'xlsx', encoding: '' });
+    expect(parsed.sheets.map(s => s.name)).toEqual(['封面', '工單', '欠料', '空白']);
+    expect(parsed.sheets[2].rows[0]).toEqual({ 工單號碼: 'WO-1', 料號: 'P-1', 品名: 'Cap', 欠料數量: 100 });
+    expect(guessSheet(parsed.sheets, 'shortages')?.name).toBe('欠料');
+    expect(guessSheet(parsed.sheets, 'woDetails')?.name).toBe('工單');
+  });
+
+  it('prefers a sheet matched by a saved profile', () => {
+    const sheets = [
+      tableToSheet('A', [['工單號碼', '料號'], ['WO-1', 'P-1']]),
+      tableToSheet('B', [['單號', '物料', '缺料'], ['WO-1', 'P-1', '3']]),
+    ];
+    const profile: ImportProfile = {
+      id: 'p1', name: 'Vendor X', target: 'shortages', knownHeaders: ['單號', '物料', '缺料'], updatedAt: '', updatedBy: 'admin',
+      mappings: [
+        { field: 'workOrder', source: '單號', transform: 'text', defaultValue: '' },
+        { field: 'partNumber', source: '物料', transform: 'text', defaultValue: '' },
+        { field: 'shortageQty', source: '缺料', transform: 'number', defaultValue: '0' },
+      ],
+    };
+    expect(guessSheet(sheets, 'shortages')?.name).toBe('A');
+    expect(guessSheet(sheets, 'shortages', [profile])?.name).toBe('B');
+  });
+
+  it('finds no sheet when every sheet is empty', () => {
+    expect(guessSheet([tableToSheet('S', [])], 'shortages')).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import * as XLSX from 'xlsx';
+import { ImportProfile, ImportTarget } from '../types';
+import { suggestMapping } from './importMapping';
+
+// Turns an uploaded .xlsx/.xls/.csv file into header-keyed rows, independent of the upload UI.
+// CSV is parsed here directly; workbooks go through SheetJS.
+
+export interface SheetData {
+  name: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface ParsedWorkbook {
+  fileName: string;
+  format: 'xlsx' | 'csv';
+  encoding: string; // CSV only, '' for workbooks
+  sheets: SheetData[];
+}
+
+// ERP exports in Taiwan are either UTF-8 (with or without BOM) or Big5
+export const decodeCsv = (bytes: Uint8Array): { text: string; encoding: string } => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('big5').decode(bytes), encoding: 'big5' };
+  }
+};
+
+// Tab, comma or semicolon (Excel's CSV in locales with a decimal comma), whichever the header line uses most;
+// delimiters inside quoted header cells don't count
+const detectDelimiter = (firstLine: string): string => {
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+  const count = (d: string) => unquoted.split(d).length - 1;
+  return ['\t', ';'].reduce((best, d) => count(d) > count(best) ? d : best, ',');
+};
+
+// RFC 4180: quoted fields may contain the delimiter, doubled quotes and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text.split(/\r?\n/, 1)[0] || '');
+  const table: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); table.push(row);
+      row = []; field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); table.push(row); }
+  return table;
+};
+
+// First non-empty line is the header. Each row remembers its sheet row (0-based) in a
+// non-enumerable __rowNum__, the same way SheetJS does, for the validation report.
+export const tableToSheet = (name: string, table: unknown[][], firstRow: number = 0): SheetData => {
+  const headerIndex = table.findIndex(line => line.some(cell => String(cell ?? '').trim() !== ''));
+  if (headerIndex < 0) return { name, headers: [], rows: [] };
+  const header = table[headerIndex].map(h => String(h ?? '').trim());
+  const rows: Record<string, unknown>[] = [];
+  table.slice(headerIndex + 1).forEach((line, i) => {
+    if (!line.some(cell => String(cell ?? '').trim() !== '')) return;
+    const row: Record<string, unknown> = {};
+    header.forEach((h, col) => {
+      const cell = line[col];
+      if (h && cell !== undefined && cell !== null && cell !== '') row[h] = cell;
+    });
+    Object.defineProperty(row, '__rowNum__', { value: firstRow + headerIndex + 1 + i, enumerable: false });
+    rows.push(row);
+  });
+  return { name, headers: header.filter(Boolean), rows };
+};
+
+const readWorkbookBytes = (bytes: ArrayBuffer): SheetData[] => {
+  const wb = XLSX.read(bytes, { type: 'array' });
+  return wb.SheetNames.map((name: string) => {
+    const ws = wb.Sheets[name];
+    if (!ws || !ws['!ref']) return { name, headers: [], rows: [] };
+    const firstRow = XLSX.utils.decode_range(ws['!ref']).s.r;
+    const table = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, blankrows: true, defval: '' });
+    return tableToSheet(name, table, firstRow);
+  });
+};
+
+export const isCsvFile = (fileName: string) => /\.(csv|txt)$/i.test(fileName);
+
+export const readImportFile = async (file: File): Promise<ParsedWorkbook> => {
+  const bytes = await file.arrayBuffer();
+  if (isCsvFile(file.name)) {
+    const { text, encoding } = decodeCsv(new Uint8Array(bytes));
+    const name = file.name.replace(/\.[^.]+$/, '');
+    return { fileName: file.name, format: 'csv', encoding, sheets: [tableToSheet(name, parseCsv(text))] };
+  }
+  return { fileName: file.name, format: 'xlsx', encoding: '', sheets: readWorkbookBytes(bytes) };
+};
+
+// Sheet whose headers best match the import target (built-in aliases and saved profiles)
+export const guessSheet = (sheets: SheetData[], target: ImportTarget, profiles: ImportProfile[] = []): SheetData | null => {
+  let best: SheetData | null = null;
+  let bestScore = -1;
+  sheets.forEach(sheet => {
+    if (sheet.rows.length === 0) return;
+    const suggestion = suggestMapping(target, sheet.headers, profiles);
+    const score = suggestion.mappings.filter(m => m.source).length - suggestion.missingRequired.length * 10;
+    if (score > bestScore) { best = sheet; bestScore = score; }
+  });
+  return best;
+};
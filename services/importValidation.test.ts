@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ImportFieldMapping } from '../types';
+import { tableToSheet } from './importParser';
+import { validateShortageRows } from './importValidation';
+
+const mappings: ImportFieldMapping[] = [
+  { field: 'workOrder', source: '工單號碼', transform: 'upper', defaultValue: '' },
+  { field: 'partNumber', source: '料號', transform: 'upper', defaultValue: '' },
+  { field: 'shortageQty', source: '欠料數量', transform: 'number', defaultValue: '' },
+];
+
+const rows = (...lines: unknown[][]) => tableToSheet('欠料', [['工單號碼', '料號', '欠料數量'], ...lines]).rows;
+
+describe('validateShortageRows', () => {
+  it('maps valid rows', () => {
+    const report = validateShortageRows(rows(['wo-1', 'p-1', '1,000']), mappings);
+    expect(report.rejected).toEqual([]);
+    expect(report.valid).toMatchObject([{ workOrder: 'WO-1', partNumber: 'P-1', shortageQty: 1000 }]);
+  });
+
+  it('rejects missing keys and bad quantities with their Excel row numbers', () => {
+    const report = validateShortageRows(rows(['', 'P-1', 1], ['WO-1', 'P-2', 'abc'], ['WO-1', 'P-3', -2], ['WO-1', 'P-4']), mappings);
+    expect(report.valid).toEqual([]);
+    expect(report.rejected.map(r => [r.rowNumber, r.reasons])).toEqual([
+      [2, ['缺少工單號碼']],
+      [3, ['欠料數量不是數字: abc']],
+      [4, ['欠料數量不可為負數: -2']],
+      [5, ['缺少欠料數量']],
+    ]);
+  });
+
+  it('rejects lines that become the same work order and part once transformed', () => {
+    const report = validateShortageRows(rows(['WO-1', 'P-1', 5], [' wo-1', 'p-1 ', 3], ['WO-1', 'P-2', 1]), mappings);
+    expect(report.valid.map(r => r.partNumber)).toEqual(['P-1', 'P-2']);
+    expect(report.rejected).toMatchObject([{ rowNumber: 3, reasons: ['工單+料號與第 2 列重複'] }]);
+  });
+});
@@ -0,0 +1,128 @@
+import { ERPRawRow, ImportFieldMapping, ReplyImportLine, WODetailInput } from '../types';
+import { applyTransform, mapShortageRows, mapWODetailRows, rawValue } from './importMapping';
+
+// Row-level checks run on the raw sheet before anything reaches the service.
+// Rejected rows keep their original cells so they can be downloaded, fixed and uploaded again.
+
+export const KNOWN_STAGES = ['SMT', 'Assembly', 'Packing'];
+
+const STAGE_ALIASES: Record<string, string> = { '打件': 'SMT', '組裝': 'Assembly', '包裝': 'Packing' };
+
+// Canonical stage name, or '' when the value is not a stage we track
+export const normalizeStage = (value: string): string => {
+  const s = value.trim();
+  if (STAGE_ALIASES[s]) return STAGE_ALIASES[s];
+  return KNOWN_STAGES.find(k => k.toLowerCase() === s.toLowerCase()) || '';
+};
+
+export interface RejectedRow {
+  rowNumber: number; // Excel row number, header is row 1
+  row: Record<string, unknown>;
+  reasons: string[];
+}
+
+export interface ValidationReport<T> {
+  valid: T[];
+  rejected: RejectedRow[];
+}
+
+// SheetJS tags each row with its 0-based sheet row (non-enumerable), which survives skipped blank lines
+export const excelRowNumber = (row: Record<string, unknown>, index: number) => {
+  const rowNum = (row as { __rowNum__?: number }).__rowNum__;
+  return typeof rowNum === 'number' ? rowNum + 1 : index + 2;
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+const fieldValue = (row: Record<string, unknown>, mappings: ImportFieldMapping[], field: string) => {
+  const m = mappings.find(x => x.field === field);
+  return m ? rawValue(row, m) : undefined;
+};
+
+export const validateWODetailRows = (rows: Record<string, unknown>[], mappings: ImportFieldMapping[]): ValidationReport<WODetailInput> => {
+  const report: ValidationReport<WODetailInput> = { valid: [], rejected: [] };
+  rows.forEach((row, i) => {
+    const reasons: string[] = [];
+    if (isBlank(fieldValue(row, mappings, 'workOrder'))) reasons.push('缺少工單號碼');
+
+    const stage = fieldValue(row, mappings, 'stage');
+    if (!isBlank(stage) && !normalizeStage(String(stage))) reasons.push(`未知的階級: ${stage}`);
+
+    const date = fieldValue(row, mappings, 'productionDate');
+    if (!isBlank(date) && !applyTransform(date, 'date')) reasons.push(`無法解析的生產日期: ${date}`);
+
+    if (reasons.length > 0) {
+      report.rejected.push({ rowNumber: excelRowNumber(row, i), row, reasons });
+      return;
+    }
+    const [mapped] = mapWODetailRows([row], mappings);
+    report.valid.push({ ...mapped, stage: normalizeStage(mapped.stage || 'SMT') });
+  });
+  return report;
+};
+
+export const validateShortageRows = (rows: Record<string, unknown>[], mappings: ImportFieldMapping[]): ValidationReport<Omit<ERPRawRow, 'id'>> => {
+  const report: ValidationReport<Omit<ERPRawRow, 'id'>> = { valid: [], rejected: [] };
+  const firstSeen = new Map<string, number>();
+  rows.forEach((row, i) => {
+    const rowNumber = excelRowNumber(row, i);
+    const reasons: string[] = [];
+    const workOrder = fieldValue(row, mappings, 'workOrder');
+    const partNumber = fieldValue(row, mappings, 'partNumber');
+    if (isBlank(workOrder)) reasons.push('缺少工單號碼');
+    if (isBlank(partNumber)) reasons.push('缺少料號');
+
+    const qty = fieldValue(row, mappings, 'shortageQty');
+    const n = Number(String(qty ?? '').replace(/,/g, '').trim());
+    if (isBlank(qty)) reasons.push('缺少欠料數量');
+    else if (!isFinite(n)) reasons.push(`欠料數量不是數字: ${qty}`);
+    else if (n < 0) reasons.push(`欠料數量不可為負數: ${qty}`);
+
+    // Compared as imported (after e.g. 'upper'), since that is how the service matches rows
+    const [mapped] = mapShortageRows([row], mappings);
+    if (mapped) {
+      const key = `${mapped.workOrder}|${mapped.partNumber}`;
+      const first = firstSeen.get(key);
+      if (first !== undefined) reasons.push(`工單+料號與第 ${first} 列重複`);
+      else firstSeen.set(key, rowNumber);
+    }
+
+    if (reasons.length > 0) {
+      report.rejected.push({ rowNumber, row, reasons });
+      return;
+    }
+    report.valid.push(mapped);
+  });
+  return report;
+};
+
+// Lines with neither a reply date nor a remark are what the supplier left blank, so they are skipped, not rejected
+export const validateReplyRows = (rows: Record<string, unknown>[], mappings: ImportFieldMapping[]): ValidationReport<ReplyImportLine> => {
+  const report: ValidationReport<ReplyImportLine> = { valid: [], rejected: [] };
+  rows.forEach((row, i) => {
+    const rowNumber = excelRowNumber(row, i);
+    const text = (field: string) => String(fieldValue(row, mappings, field) ?? '').trim();
+    const reply = fieldValue(row, mappings, 'replyDate');
+    const remark = text('remark');
+    if (isBlank(reply) && !remark) return;
+
+    const reasons: string[] = [];
+    if (!text('rowId') && (!text('workOrder') || !text('partNumber'))) reasons.push('缺少工單號碼或料號');
+    const replyDate = isBlank(reply) ? '' : String(applyTransform(reply, 'date'));
+    if (!isBlank(reply) && !replyDate) reasons.push(`無法解析的回覆交期: ${reply}`);
+
+    if (reasons.length > 0) {
+      report.rejected.push({ rowNumber, row, reasons });
+      return;
+    }
+    report.valid.push({
+      rowNumber,
+      rowId: text('rowId') || undefined,
+      workOrder: text('workOrder'),
+      partNumber: text('partNumber'),
+      replyDate,
+      remark: remark || undefined,
+    });
+  });
+  return report;
+};
@@ -1,14 +1,14 @@
 
 import { SheetDatabase, UserRole } from '../types';
+import { DEFAULT_ROLES, toRoleRow } from './permissions';
 
 export const INITIAL_DB: SheetDatabase = {
+  // Seed accounts all start with the password 'changeme'
   usersRoles: [
-    { username: 'lynn780920zhan', role: UserRole.ADMIN },
-    { username: 'admin', role: UserRole.ADMIN },
-    { username: '123', role: UserRole.ADMIN }, 
-    { username: 'scheduler', role: UserRole.SCHEDULER },
-    { username: 'purchaser', role: UserRole.PURCHASER },
-    { username: 'business', role: UserRole.BUSINESS },
+    { username: 'admin', role: UserRole.ADMIN, passwordHash: 'pbkdf2-sha256$100000$dd9306bff7da7de7ff31eaaa45d66481$3d882fa4d3e07f95baa2879f8f3f1b9ba9adcff1bfe3eef8aa35644f147b87fa', displayName: '', email: '', disabled: false },
+    { username: 'scheduler', role: UserRole.SCHEDULER, passwordHash: 'pbkdf2-sha256$100000$efffb07a3768aaab59e947b3824289b2$e68e42642d2efe41aa90829ef77e8808a8aa7ee77da9e75b5e3484cd8b13d4aa', displayName: '', email: '', disabled: false },
+    { username: 'purchaser', role: UserRole.PURCHASER, passwordHash: 'pbkdf2-sha256$100000$8ec9b2b7192c651a2159deb6fe910ae8$9603aaf3b821f778556106c7db564c5b4482659ca1e1c30661e011879ad4a2b6', displayName: '', email: '', disabled: false },
+    { username: 'business', role: UserRole.BUSINESS, passwordHash: 'pbkdf2-sha256$100000$ef9bff13d5f13f8f44b680f9b56e3be4$daa6b67cb457a913597caa5a8429e2c583986cb6adab551cbc657d535e7adccd', displayName: '', email: '', disabled: false },
   ],
   erpRawData: [],
   trackingSchedule: [
@@ -32,7 +32,9 @@ export const INITIAL_DB: SheetDatabase = {
       purchaserRemark: '',
       status: 'Pending', 
       purchaserUsername: 'purchaser',
-      isArchived: false
+      isArchived: false,
+      version: 1,
+      updatedAt: ''
     },
     { 
       id: 'row-2', 
@@ -53,7 +55,9 @@ export const INITIAL_DB: SheetDatabase = {
       purchaserRemark: '',
       status: 'Confirmed', 
       purchaserUsername: 'purchaser',
-      isArchived: false
+      isArchived: false,
+      version: 1,
+      updatedAt: ''
     },
     { 
       id: 'row-3', 
@@ -74,7 +78,9 @@ export const INITIAL_DB: SheetDatabase = {
       purchaserRemark: '',
       status: 'Pending', 
       purchaserUsername: 'purchaser',
-      isArchived: false
+      isArchived: false,
+      version: 1,
+      updatedAt: ''
     },
     // PIXEL-8 Case
     { 
@@ -96,12 +102,27 @@ export const INITIAL_DB: SheetDatabase = {
       purchaserRemark: '',
       status: 'Pending', 
       purchaserUsername: 'purchaser',
-      isArchived: false
+      isArchived: false,
+      version: 1,
+      updatedAt: ''
     },
   ],
   referenceData: [
     { type: 'Stage', value: 'SMT' },
     { type: 'Stage', value: 'Assembly' },
     { type: 'Stage', value: 'Packing' },
-  ]
+    { type: 'LateLeadDays', value: '3' },
+  ],
+  sessions: [],
+  history: [],
+  importBatches: [],
+  importSnapshots: [],
+  importProfiles: [],
+  purchaserRules: [
+    { supplier: 'DigiKey', purchaserUsername: 'purchaser' },
+    { supplier: 'Molex', purchaserUsername: 'purchaser' },
+    { supplier: 'LocalPack', purchaserUsername: 'purchaser' },
+    { supplier: 'Sony', purchaserUsername: 'purchaser' },
+  ],
+  roles: DEFAULT_ROLES.map(toRoleRow)
 };
@@ -0,0 +1,416 @@
+import { AuthSession, ERPRawRow, HistoryFilter, ImportOptions, ImportProfileInput, ImportTarget, NewUser, PendingMutation, PurchaserRuleRow, QueuedField, ReplyImportLine, ReplyImportOptions, RoleDefinition, RowBatchChanges, RowBatchTarget, TrackingQuery, TrackingRow, UserImportRow, UserUpdate, WODetailInput } from '../types';
+import { SheetApiError } from './googleSheetService';
+import { AuthError, ConflictError } from './serviceErrors';
+import { ISheetService } from './sheetService';
+
+// Wraps the real service so purchasers and schedulers can keep editing while the network is down.
+// Tracking edits are queued in localStorage and replayed in order once we're back online;
+// reads fall back to the last result we saw for the same query.
+
+const QUEUE_KEY = 'pending_mutations';
+const READ_CACHE_KEY = 'offline_read_cache';
+const SESSION_KEY = 'offline_session';
+const READ_CACHE_LIMIT = 20;
+const RETRY_INTERVAL_MS = 30_000;
+
+const isNetworkError = (err: unknown) =>
+  err instanceof TypeError || // fetch() rejects with a TypeError when the request never leaves the device
+  (err instanceof SheetApiError && (err.status === 0 || err.status >= 500));
+
+const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const saveJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Quota exceeded: the read cache is best-effort, the queue is small
+  }
+};
+
+export class OfflineSheetService implements ISheetService {
+  private queue: PendingMutation[] = loadJson(QUEUE_KEY, []);
+  private readCache: { key: string; value: unknown }[] = loadJson(READ_CACHE_KEY, []);
+  private session: AuthSession | null = null;
+  // Session was restored from the local copy; the backend hasn't confirmed it yet
+  private resumedOffline = false;
+  private expiredListeners: (() => void)[] = [];
+  private flushing: Promise<void> | null = null;
+  private listeners: ((pending: PendingMutation[]) => void)[] = [];
+
+  constructor(private inner: ISheetService) {
+    window.addEventListener('online', () => { this.ensureResumed().then(() => this.flush(), () => {}); });
+    setInterval(() => { if (this.pending().length > 0) this.flush(); }, RETRY_INTERVAL_MS);
+  }
+
+  // --- QUEUE ---
+
+  // Edits of the signed-in user that haven't reached the backend yet
+  pending(): PendingMutation[] {
+    return this.session ? this.queue.filter(m => m.username === this.session!.user.username) : [];
+  }
+
+  onPendingChange(listener: (pending: PendingMutation[]) => void) {
+    this.listeners.push(listener);
+    return () => { this.listeners = this.listeners.filter(l => l !== listener); };
+  }
+
+  private setQueue(queue: PendingMutation[]) {
+    this.queue = queue;
+    saveJson(QUEUE_KEY, queue);
+    const pending = this.pending();
+    this.listeners.forEach(l => l(pending));
+  }
+
+  // Other tabs share the stored queue, so always start from the stored copy
+  private storedQueue(): PendingMutation[] {
+    return loadJson(QUEUE_KEY, this.queue);
+  }
+
+  private enqueue(field: QueuedField, target: { rowId?: string; workOrder?: string; stage?: string }, value: string | boolean, expectedVersion?: number) {
+    this.queue = this.storedQueue();
+    const username = this.session?.user.username || '';
+    const rowId = target.rowId || '';
+    const cached = this.findCachedRow(row => rowId ? row.id === rowId : row.workOrder === target.workOrder && row.stage === target.stage);
+    const workOrder = target.workOrder || cached?.workOrder || '';
+    const stage = target.stage || '';
+    // Only the latest value of a field matters, so a newer edit replaces the queued one
+    const same = (m: PendingMutation) => m.username === username && m.field === field &&
+      (rowId ? m.rowId === rowId : m.workOrder === workOrder && m.stage === stage);
+    // A follow-up edit keeps the version the first queued one was based on
+    const earlier = this.queue.find(same);
+    this.setQueue([
+      ...this.queue.filter(m => !same(m)),
+      {
+        id: `pending-${Date.now()}-${this.queue.length}`, queuedAt: new Date().toISOString(), username, field, rowId, workOrder, stage, value,
+        expectedVersion: earlier ? earlier.expectedVersion : expectedVersion,
+        baseValue: earlier ? earlier.baseValue : cached?.[field],
+      },
+    ]);
+  }
+
+  private send(m: PendingMutation) {
+    switch (m.field) {
+      case 'purchaserReplyDate': return this.inner.updateDeliveryDate(m.rowId, String(m.value), m.expectedVersion);
+      case 'purchaserRemark': return this.inner.updatePurchaserRemark(m.rowId, String(m.value), m.expectedVersion);
+      case 'oqcDate': return this.inner.updateStageDate(m.workOrder, m.stage, 'oqcDate', String(m.value), m.expectedVersion);
+      case 'isMaterialReady': return this.inner.updateStageReady(m.workOrder, m.stage, Boolean(m.value), m.expectedVersion);
+    }
+  }
+
+  // Replays the queue in order; stops at the first network failure and keeps the rest for later
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => { this.flushing = null; });
+    }
+    return this.flushing;
+  }
+
+  private async replay() {
+    if (!this.session || !navigator.onLine) return;
+    try {
+      await this.ensureResumed();
+    } catch {
+      return;
+    }
+    if (!this.session) return;
+    this.queue = this.storedQueue();
+    for (const m of this.pending()) {
+      if (m.conflictVersion !== undefined || m.failedReason !== undefined) continue; // Waiting for the user
+      if (!this.storedQueue().some(q => q.id === m.id)) continue; // Sent by another tab meanwhile
+      try {
+        await this.send(m).catch(err => {
+          // Other fields of the row changed, but not this one: nothing to decide, send it on the new version
+          if (err instanceof ConflictError && m.baseValue !== undefined && err.current[m.field] === m.baseValue) {
+            return this.send({ ...m, expectedVersion: err.currentVersion });
+          }
+          throw err;
+        });
+      } catch (err) {
+        if (isNetworkError(err) || err instanceof AuthError) return;
+        if (err instanceof ConflictError && err.current[m.field] !== m.value) {
+          // Someone else changed it while we were offline: keep the edit and let the user choose
+          const conflictValue = err.current[m.field];
+          this.setQueue(this.storedQueue().map(q => q.id === m.id ? { ...q, conflictValue, conflictVersion: err.currentVersion } : q));
+          continue;
+        }
+        // Rejected for good (row deleted, no permission...): stop retrying it, but keep it so the user sees why
+        const failedReason = err instanceof Error && err.message ? err.message : String(err);
+        this.setQueue(this.storedQueue().map(q => q.id === m.id ? { ...q, failedReason } : q));
+        continue;
+      }
+      this.setQueue(this.storedQueue().filter(q => q.id !== m.id));
+    }
+  }
+
+  // Settles a queued edit that hit a conflict: resend ours over theirs, or drop ours. Failed edits can only be dropped.
+  resolveConflict(id: string, keepMine: boolean) {
+    const m = this.storedQueue().find(q => q.id === id);
+    if (!m) return Promise.resolve();
+    this.setQueue(keepMine && m.failedReason === undefined
+      ? this.storedQueue().map(q => q.id === id ? { ...q, expectedVersion: m.conflictVersion, conflictValue: undefined, conflictVersion: undefined } : q)
+      : this.storedQueue().filter(q => q.id !== id));
+    return this.flush();
+  }
+
+  // Online: send straight away. Offline or the request fails on the network: queue it.
+  private async mutate(field: QueuedField, target: { rowId?: string; workOrder?: string; stage?: string }, value: string | boolean, expectedVersion: number | undefined, send: () => Promise<boolean>) {
+    // Failed edits are never sent again, so they don't hold up new ones
+    if (navigator.onLine && this.pending().every(m => m.failedReason !== undefined)) {
+      try {
+        return await send();
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+      }
+    }
+    this.enqueue(field, target, value, expectedVersion);
+    if (navigator.onLine) this.flush();
+    return true;
+  }
+
+  // --- READ CACHE ---
+
+  private async cachedRead<T>(key: string, read: () => Promise<T>): Promise<T> {
+    try {
+      await this.ensureResumed().catch(err => { if (!isNetworkError(err)) throw err; });
+      const value = await read();
+      this.readCache = [{ key, value }, ...this.readCache.filter(c => c.key !== key)].slice(0, READ_CACHE_LIMIT);
+      saveJson(READ_CACHE_KEY, this.readCache);
+      return value;
+    } catch (err) {
+      const hit = this.readCache.find(c => c.key === key);
+      if (isNetworkError(err) && hit) return hit.value as T;
+      throw err;
+    }
+  }
+
+  private findCachedRow(match: (row: TrackingRow) => boolean): TrackingRow | undefined {
+    for (const c of this.readCache) {
+      const rows = (c.value as { rows?: TrackingRow[] })?.rows;
+      const row = Array.isArray(rows) ? rows.find(match) : undefined;
+      if (row) return row;
+    }
+    return undefined;
+  }
+
+  // Queued edits shown on top of what the backend returned, so the screen matches what the user typed
+  private overlay(rows: TrackingRow[]): TrackingRow[] {
+    const pending = this.pending();
+    if (pending.length === 0) return rows;
+    return rows.map(row => {
+      const edits = pending.filter(m => m.conflictVersion === undefined && m.failedReason === undefined &&
+        (m.rowId ? m.rowId === row.id : m.workOrder === row.workOrder && m.stage === row.stage));
+      return edits.reduce((r, m) => ({ ...r, [m.field]: m.value }), row);
+    });
+  }
+
+  // --- SESSION ---
+
+  private remember(session: AuthSession | null) {
+    this.session = session;
+    if (session) saveJson(SESSION_KEY, session);
+    else localStorage.removeItem(SESSION_KEY);
+    this.setQueue(this.queue);
+    if (session) this.flush();
+    return session;
+  }
+
+  // Hands a session restored offline over to the backend once it is reachable again
+  private async ensureResumed() {
+    if (!this.resumedOffline || !this.session || !navigator.onLine) return;
+    const session = await this.inner.resumeSession(this.session.token);
+    this.resumedOffline = false;
+    this.remember(session);
+    if (!session) this.expiredListeners.forEach(l => l());
+  }
+
+  async login(username: string, password: string) {
+    return this.remember(await this.inner.login(username, password));
+  }
+
+  // Offline, a token we resumed before is trusted until it expires; the backend re-checks it on sync
+  async resumeSession(token: string) {
+    try {
+      return this.remember(await this.inner.resumeSession(token));
+    } catch (err) {
+      const saved = loadJson<AuthSession | null>(SESSION_KEY, null);
+      // Sessions saved before roles became lists lack user.roles; those need one online sign-in
+      if (isNetworkError(err) && saved && saved.token === token && saved.expiresAt > Date.now() && Array.isArray(saved.user.roles)) {
+        this.session = saved;
+        this.resumedOffline = true;
+        this.setQueue(this.queue);
+        return saved;
+      }
+      throw err;
+    }
+  }
+
+  async logout() {
+    this.resumedOffline = false;
+    this.remember(null);
+    // Cached pages belong to this user and must not show up for the next one on this device
+    this.readCache = [];
+    localStorage.removeItem(READ_CACHE_KEY);
+    try {
+      await this.inner.logout();
+    } catch (err) {
+      // Offline: the server-side session simply runs out
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+
+  onSessionExpired(listener: () => void) {
+    this.expiredListeners.push(listener);
+    const unsubscribe = this.inner.onSessionExpired(listener);
+    return () => {
+      this.expiredListeners = this.expiredListeners.filter(l => l !== listener);
+      unsubscribe();
+    };
+  }
+
+  subscribe(listener: () => void) {
+    return this.inner.subscribe(listener);
+  }
+
+  setPassword(username: string, newPassword: string) {
+    return this.inner.setPassword(username, newPassword);
+  }
+
+  // --- TRACKING ---
+
+  async queryTracking(query: TrackingQuery) {
+    const page = await this.cachedRead(`query:${JSON.stringify(query)}`, () => this.inner.queryTracking(query));
+    return { ...page, rows: this.overlay(page.rows) };
+  }
+
+  getTrackingFacets(archived?: boolean) {
+    return this.cachedRead(`facets:${archived}`, () => this.inner.getTrackingFacets(archived));
+  }
+
+  getDashboardStats() {
+    return this.cachedRead('dashboard', () => this.inner.getDashboardStats());
+  }
+
+  updateDeliveryDate(rowId: string, newDate: string, expectedVersion?: number) {
+    return this.mutate('purchaserReplyDate', { rowId }, newDate, expectedVersion, () => this.inner.updateDeliveryDate(rowId, newDate, expectedVersion));
+  }
+
+  updatePurchaserRemark(rowId: string, remark: string, expectedVersion?: number) {
+    return this.mutate('purchaserRemark', { rowId }, remark, expectedVersion, () => this.inner.updatePurchaserRemark(rowId, remark, expectedVersion));
+  }
+
+  updateStageDate(workOrder: string, stage: string, field: 'oqcDate', newDate: string, expectedVersion?: number) {
+    return this.mutate(field, { workOrder, stage }, newDate, expectedVersion, () => this.inner.updateStageDate(workOrder, stage, field, newDate, expectedVersion));
+  }
+
+  updateStageReady(workOrder: string, stage: string, isReady: boolean, expectedVersion?: number) {
+    return this.mutate('isMaterialReady', { workOrder, stage }, isReady, expectedVersion, () => this.inner.updateStageReady(workOrder, stage, isReady, expectedVersion));
+  }
+
+  // Applied as one write or not at all, so it isn't split into queued per-field edits
+  updateRows(targets: RowBatchTarget[], changes: RowBatchChanges) {
+    return this.inner.updateRows(targets, changes);
+  }
+
+  archiveModel(modelName: string, isArchived: boolean) {
+    return this.inner.archiveModel(modelName, isArchived);
+  }
+
+  getHistory(filter: HistoryFilter) {
+    return this.cachedRead(`history:${JSON.stringify(filter)}`, () => this.inner.getHistory(filter));
+  }
+
+  // --- IMPORT (online only) ---
+
+  importReplies(lines: ReplyImportLine[], options?: ReplyImportOptions) {
+    return this.inner.importReplies(lines, options);
+  }
+
+  importWODetails(data: WODetailInput[], options?: ImportOptions) {
+    return this.inner.importWODetails(data, options);
+  }
+
+  importShortages(data: Omit<ERPRawRow, 'id'>[], mode?: 'replace' | 'merge', options?: ImportOptions) {
+    return this.inner.importShortages(data, mode, options);
+  }
+
+  listImportBatches(limit?: number) {
+    return this.inner.listImportBatches(limit);
+  }
+
+  rollbackImportBatch(batchId: string) {
+    return this.inner.rollbackImportBatch(batchId);
+  }
+
+  listImportProfiles(target?: ImportTarget) {
+    return this.inner.listImportProfiles(target);
+  }
+
+  saveImportProfile(profile: ImportProfileInput) {
+    return this.inner.saveImportProfile(profile);
+  }
+
+  deleteImportProfile(id: string) {
+    return this.inner.deleteImportProfile(id);
+  }
+
+  listPurchaserRules() {
+    return this.inner.listPurchaserRules();
+  }
+
+  savePurchaserRules(rules: PurchaserRuleRow[]) {
+    return this.inner.savePurchaserRules(rules);
+  }
+
+  assignPurchaser(rowIds: string[], username: string) {
+    return this.inner.assignPurchaser(rowIds, username);
+  }
+
+  getAllERP() {
+    return this.inner.getAllERP();
+  }
+
+  compareERPUploads(fromBatchId: string, toBatchId: string) {
+    return this.inner.compareERPUploads(fromBatchId, toBatchId);
+  }
+
+  // --- USERS (online only) ---
+
+  getUsers() {
+    return this.inner.getUsers();
+  }
+
+  addUser(user: NewUser, password: string) {
+    return this.inner.addUser(user, password);
+  }
+
+  updateUser(username: string, changes: UserUpdate) {
+    return this.inner.updateUser(username, changes);
+  }
+
+  deleteUser(username: string) {
+    return this.inner.deleteUser(username);
+  }
+
+  importUsers(rows: UserImportRow[]) {
+    return this.inner.importUsers(rows);
+  }
+
+  listRoles() {
+    return this.inner.listRoles();
+  }
+
+  saveRole(role: RoleDefinition) {
+    return this.inner.saveRole(role);
+  }
+
+  deleteRole(name: string) {
+    return this.inner.deleteRole(name);
+  }
+}
@@ -0,0 +1,49 @@
+import { Permission, RoleDefinition, RoleRow, UserRole } from '../types';
+
+// What a user may do is the union of the permissions of their roles. The service checks these on every call;
+// the UI only uses them to hide controls.
+
+// Display order in the role editor
+export const PERMISSIONS: Permission[] = ['editReplyDate', 'editOqcDate', 'toggleReady', 'archive', 'import', 'assignPurchaser', 'manageUsers'];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  editReplyDate: '回覆交期',
+  editOqcDate: '修改客驗/出貨日',
+  toggleReady: '確認齊料',
+  archive: '移至歷史完工',
+  import: '匯入資料',
+  assignPurchaser: '指派採購負責人',
+  manageUsers: '管理人員與角色',
+};
+
+// Used as-is by sheets that predate the Roles tab, and seeded into new ones
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  { name: UserRole.ADMIN, permissions: [...PERMISSIONS] },
+  { name: UserRole.SCHEDULER, permissions: ['editOqcDate', 'toggleReady', 'archive', 'import', 'assignPurchaser'] },
+  { name: UserRole.PURCHASER, permissions: ['editReplyDate'] },
+  { name: UserRole.BUSINESS, permissions: [] },
+];
+
+export const splitNames = (value: string): string[] =>
+  (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+export const toRoleDefinition = (row: RoleRow): RoleDefinition => ({
+  name: row.name,
+  permissions: splitNames(row.permissions).filter((p): p is Permission => (PERMISSIONS as string[]).includes(p)),
+});
+
+export const toRoleRow = (role: RoleDefinition): RoleRow => ({
+  name: role.name,
+  permissions: role.permissions.join(','),
+});
+
+// Role names are matched case-insensitively; unknown names grant nothing
+export const permissionsOf = (roleNames: string[], roles: RoleDefinition[]): Permission[] => {
+  const wanted = new Set(roleNames.map(n => n.toLowerCase()));
+  const granted = new Set<Permission>();
+  roles.filter(r => wanted.has(r.name.toLowerCase())).forEach(r => r.permissions.forEach(p => granted.add(p)));
+  return PERMISSIONS.filter(p => granted.has(p));
+};
+
+export const can = (user: { permissions?: Permission[] }, permission: Permission): boolean =>
+  (user.permissions || []).includes(permission);
@@ -0,0 +1,49 @@
+import { Permission, TrackingRow } from '../types';
+
+// Errors thrown by ISheetService implementations. The UI tells them apart by `code`.
+
+export class AuthError extends Error {
+  constructor(public code: 'NOT_SIGNED_IN' | 'SESSION_EXPIRED' | 'FORBIDDEN' | 'ACCOUNT_DISABLED', message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// None of the acting user's roles grants the permission the call needs
+export class PermissionError extends AuthError {
+  constructor(public permission: Permission, public roles: string[], message: string) {
+    super('FORBIDDEN', message);
+    this.name = 'PermissionError';
+  }
+}
+
+// The write was based on an older version of the row(s); `current` is what is stored now
+export class ConflictError extends Error {
+  constructor(public code: 'STALE_VERSION', public current: TrackingRow, public currentVersion: number, message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
+// Another client saved different changes to the same entries between our read and our write; nothing was saved
+export class ConcurrentEditError extends Error {
+  constructor(public code: 'ROW_CHANGED', public tab: string, message: string) {
+    super(message);
+    this.name = 'ConcurrentEditError';
+  }
+}
+
+// Account / role changes that would leave the system in a bad state
+export class UserAdminError extends Error {
+  constructor(public code: 'LAST_USER_MANAGER' | 'ROLE_IN_USE' | 'UNKNOWN_ROLE', message: string) {
+    super(message);
+    this.name = 'UserAdminError';
+  }
+}
+
+export class ImportBatchError extends Error {
+  constructor(public code: 'NOT_FOUND' | 'ALREADY_ROLLED_BACK' | 'NEWER_BATCH' | 'EXPIRED', message: string) {
+    super(message);
+    this.name = 'ImportBatchError';
+  }
+}
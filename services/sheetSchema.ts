@@ -0,0 +1,299 @@
+import { ERPRawRow, HistoryRow, ImportBatchRow, ImportProfileRow, ImportSnapshotRow, PurchaserRuleRow, ReferenceRow, RoleRow, SessionRow, SheetDatabase, TrackingRow, UserRoleRow } from '../types';
+
+// Cell values as they come back from / go to the Sheets API (valueRenderOption=UNFORMATTED_VALUE)
+export type CellValue = string | number | boolean;
+
+type ColumnKind = 'string' | 'number' | 'boolean';
+
+interface ColumnSpec<T> {
+  key: keyof T;
+  header: string;
+  kind: ColumnKind;
+}
+
+export interface TabSpec<T> {
+  name: string;
+  columns: ColumnSpec<T>[];
+  // Identifies a row across reads, for merging concurrent saves
+  rowKey: (row: T) => string;
+}
+
+// --- TAB LAYOUTS (header row = row 1 of each tab) ---
+
+export const USERS_ROLES_TAB: TabSpec<UserRoleRow> = {
+  name: 'Users_Roles',
+  columns: [
+    { key: 'username', header: 'Username', kind: 'string' },
+    { key: 'role', header: 'Role', kind: 'string' },
+    { key: 'passwordHash', header: 'PasswordHash', kind: 'string' },
+    { key: 'displayName', header: 'DisplayName', kind: 'string' },
+    { key: 'email', header: 'Email', kind: 'string' },
+    { key: 'disabled', header: 'Disabled', kind: 'boolean' },
+  ],
+  rowKey: u => u.username.toLowerCase(),
+};
+
+export const ERP_RAW_DATA_TAB: TabSpec<ERPRawRow> = {
+  name: 'ERP_Raw_Data',
+  columns: [
+    { key: 'id', header: 'ID', kind: 'string' },
+    { key: 'model', header: 'Model', kind: 'string' },
+    { key: 'workOrder', header: 'WorkOrder', kind: 'string' },
+    { key: 'partNumber', header: 'PartNumber', kind: 'string' },
+    { key: 'partName', header: 'PartName', kind: 'string' },
+    { key: 'specification', header: 'Specification', kind: 'string' },
+    { key: 'supplier', header: 'Supplier', kind: 'string' },
+    { key: 'shortageQty', header: 'ShortageQty', kind: 'number' },
+    { key: 'requiredDate', header: 'RequiredDate', kind: 'string' },
+    { key: 'uploadBatch', header: 'UploadBatch', kind: 'string' },
+  ],
+  rowKey: r => r.id,
+};
+
+export const TRACKING_SCHEDULE_TAB: TabSpec<TrackingRow> = {
+  name: 'Tracking_Schedule',
+  columns: [
+    { key: 'id', header: 'ID', kind: 'string' },
+    { key: 'model', header: 'Model', kind: 'string' },
+    { key: 'workOrder', header: 'WorkOrder', kind: 'string' },
+    { key: 'productPartNumber', header: 'ProductPartNumber', kind: 'string' },
+    { key: 'partNumber', header: 'PartNumber', kind: 'string' },
+    { key: 'partName', header: 'PartName', kind: 'string' },
+    { key: 'specification', header: 'Specification', kind: 'string' },
+    { key: 'stage', header: 'Stage', kind: 'string' },
+    { key: 'vendor', header: 'Vendor', kind: 'string' },
+    { key: 'supplier', header: 'Supplier', kind: 'string' },
+    { key: 'shortageQty', header: 'ShortageQty', kind: 'number' },
+    { key: 'productionDate', header: 'ProductionDate', kind: 'string' },
+    { key: 'oqcDate', header: 'OQCDate', kind: 'string' },
+    { key: 'isMaterialReady', header: 'IsMaterialReady', kind: 'boolean' },
+    { key: 'purchaserReplyDate', header: 'PurchaserReplyDate', kind: 'string' },
+    { key: 'purchaserRemark', header: 'PurchaserRemark', kind: 'string' },
+    { key: 'status', header: 'Status', kind: 'string' },
+    { key: 'purchaserUsername', header: 'PurchaserUsername', kind: 'string' },
+    { key: 'isArchived', header: 'IsArchived', kind: 'boolean' },
+    { key: 'version', header: 'Version', kind: 'number' },
+    { key: 'updatedAt', header: 'UpdatedAt', kind: 'string' },
+  ],
+  rowKey: r => r.id,
+};
+
+export const REFERENCE_DATA_TAB: TabSpec<ReferenceRow> = {
+  name: 'Reference_Data',
+  columns: [
+    { key: 'type', header: 'Type', kind: 'string' },
+    { key: 'value', header: 'Value', kind: 'string' },
+  ],
+  rowKey: r => `${r.type}|${r.value}`,
+};
+
+export const SESSIONS_TAB: TabSpec<SessionRow> = {
+  name: 'Sessions',
+  columns: [
+    { key: 'tokenHash', header: 'TokenHash', kind: 'string' },
+    { key: 'username', header: 'Username', kind: 'string' },
+    { key: 'expiresAt', header: 'ExpiresAt', kind: 'number' },
+  ],
+  rowKey: s => s.tokenHash,
+};
+
+export const CHANGE_HISTORY_TAB: TabSpec<HistoryRow> = {
+  name: 'Change_History',
+  columns: [
+    { key: 'id', header: 'ID', kind: 'string' },
+    { key: 'timestamp', header: 'Timestamp', kind: 'string' },
+    { key: 'actor', header: 'Actor', kind: 'string' },
+    { key: 'action', header: 'Action', kind: 'string' },
+    { key: 'rowId', header: 'RowID', kind: 'string' },
+    { key: 'workOrder', header: 'WorkOrder', kind: 'string' },
+    { key: 'stage', header: 'Stage', kind: 'string' },
+    { key: 'field', header: 'Field', kind: 'string' },
+    { key: 'oldValue', header: 'OldValue', kind: 'string' },
+    { key: 'newValue', header: 'NewValue', kind: 'string' },
+  ],
+  rowKey: h => h.id,
+};
+
+export const IMPORT_BATCHES_TAB: TabSpec<ImportBatchRow> = {
+  name: 'Import_Batches',
+  columns: [
+    { key: 'id', header: 'ID', kind: 'string' },
+    { key: 'timestamp', header: 'Timestamp', kind: 'string' },
+    { key: 'actor', header: 'Actor', kind: 'string' },
+    { key: 'kind', header: 'Kind', kind: 'string' },
+    { key: 'label', header: 'Label', kind: 'string' },
+    { key: 'workOrders', header: 'WorkOrders', kind: 'string' },
+    { key: 'rowCount', header: 'RowCount', kind: 'number' },
+    { key: 'rolledBackAt', header: 'RolledBackAt', kind: 'string' },
+    { key: 'rolledBackBy', header: 'RolledBackBy', kind: 'string' },
+  ],
+  rowKey: b => b.id,
+};
+
+export const IMPORT_SNAPSHOTS_TAB: TabSpec<ImportSnapshotRow> = {
+  name: 'Import_Snapshots',
+  columns: [
+    { key: 'batchId', header: 'BatchID', kind: 'string' },
+    { key: 'workOrder', header: 'WorkOrder', kind: 'string' },
+    { key: 'rowJson', header: 'RowJSON', kind: 'string' },
+  ],
+  rowKey: s => `${s.batchId}|${s.rowJson}`,
+};
+
+export const IMPORT_PROFILES_TAB: TabSpec<ImportProfileRow> = {
+  name: 'Import_Profiles',
+  columns: [
+    { key: 'id', header: 'ID', kind: 'string' },
+    { key: 'name', header: 'Name', kind: 'string' },
+    { key: 'target', header: 'Target', kind: 'string' },
+    { key: 'mappingJson', header: 'MappingJSON', kind: 'string' },
+    { key: 'knownHeadersJson', header: 'KnownHeadersJSON', kind: 'string' },
+    { key: 'updatedAt', header: 'UpdatedAt', kind: 'string' },
+    { key: 'updatedBy', header: 'UpdatedBy', kind: 'string' },
+  ],
+  rowKey: p => p.id,
+};
+
+export const PURCHASER_RULES_TAB: TabSpec<PurchaserRuleRow> = {
+  name: 'Purchaser_Rules',
+  columns: [
+    { key: 'supplier', header: 'Supplier', kind: 'string' },
+    { key: 'purchaserUsername', header: 'PurchaserUsername', kind: 'string' },
+  ],
+  rowKey: r => r.supplier.trim().toLowerCase(),
+};
+
+export const ROLES_TAB: TabSpec<RoleRow> = {
+  name: 'Roles',
+  columns: [
+    { key: 'name', header: 'Name', kind: 'string' },
+    { key: 'permissions', header: 'Permissions', kind: 'string' },
+  ],
+  rowKey: r => r.name.toLowerCase(),
+};
+
+export type SheetTabKey = keyof SheetDatabase;
+type TabRow<K extends SheetTabKey> = SheetDatabase[K][number];
+
+// SheetDatabase key -> tab layout
+export const SHEET_TABS: { [K in SheetTabKey]: TabSpec<TabRow<K>> } = {
+  usersRoles: USERS_ROLES_TAB,
+  erpRawData: ERP_RAW_DATA_TAB,
+  trackingSchedule: TRACKING_SCHEDULE_TAB,
+  referenceData: REFERENCE_DATA_TAB,
+  sessions: SESSIONS_TAB,
+  history: CHANGE_HISTORY_TAB,
+  importBatches: IMPORT_BATCHES_TAB,
+  importSnapshots: IMPORT_SNAPSHOTS_TAB,
+  importProfiles: IMPORT_PROFILES_TAB,
+  purchaserRules: PURCHASER_RULES_TAB,
+  roles: ROLES_TAB,
+};
+
+export const SHEET_TAB_KEYS = Object.keys(SHEET_TABS) as SheetTabKey[];
+
+// --- CONVERSION ---
+
+const toCell = (value: unknown, kind: ColumnKind): CellValue => {
+  if (value === undefined || value === null) return '';
+  if (kind === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (kind === 'number') return Number(value) || 0;
+  return String(value);
+};
+
+const fromCell = (cell: CellValue | undefined, kind: ColumnKind): string | number | boolean => {
+  if (kind === 'boolean') return cell === true || String(cell).toUpperCase() === 'TRUE';
+  if (kind === 'number') {
+    const n = Number(cell);
+    return isNaN(n) ? 0 : n;
+  }
+  return cell === undefined ? '' : String(cell);
+};
+
+export const rowsToValues = <T>(tab: TabSpec<T>, rows: T[]): CellValue[][] => {
+  const header = tab.columns.map(c => c.header);
+  const body = rows.map(row => tab.columns.map(c => toCell(row[c.key], c.kind)));
+  return [header, ...body];
+};
+
+// Columns are matched by header name, so the sheet owner may reorder or append columns freely
+export const valuesToRows = <T>(tab: TabSpec<T>, values: CellValue[][]): T[] => {
+  if (values.length === 0) return [];
+  const header = values[0].map(h => String(h).trim());
+  const indexes = tab.columns.map(c => header.indexOf(c.header));
+  return values.slice(1)
+    .filter(line => line.some(cell => cell !== '' && cell !== undefined))
+    .map(line => {
+      const row: Record<string, unknown> = {};
+      tab.columns.forEach((c, i) => {
+        row[c.key as string] = fromCell(indexes[i] >= 0 ? line[indexes[i]] : undefined, c.kind);
+      });
+      return row as T;
+    });
+};
+
+export const emptyDatabase = (): SheetDatabase => ({
+  usersRoles: [],
+  erpRawData: [],
+  trackingSchedule: [],
+  referenceData: [],
+  sessions: [],
+  history: [],
+  importBatches: [],
+  importSnapshots: [],
+  importProfiles: [],
+  purchaserRules: [],
+  roles: [],
+});
+
+// Three-way merge of one tab: our changes since `base` was read, applied to what the sheet holds now (`theirs`).
+// Rows are matched by the tab's key and compared cell by cell. A row both sides changed differently is returned
+// as the conflict, and nothing is merged.
+export const mergeRows = <T>(tab: TabSpec<T>, base: T[], mine: T[], theirs: T[]): { rows: T[]; conflict: string | null } => {
+  const cells = (row: T | undefined) => row === undefined ? '' : JSON.stringify(tab.columns.map(c => toCell(row[c.key], c.kind)));
+  // Repeated keys are told apart by occurrence, so duplicate rows are neither merged nor lost
+  const index = (rows: T[]) => {
+    const seen = new Map<string, number>();
+    return new Map(rows.map(row => {
+      const key = tab.rowKey(row);
+      const n = seen.get(key) || 0;
+      seen.set(key, n + 1);
+      return [`${key}#${n}`, row] as const;
+    }));
+  };
+  const b = index(base);
+  const m = index(mine);
+  const t = index(theirs);
+  const changed = new Set(Array.from(new Set([...b.keys(), ...m.keys()])).filter(k => cells(b.get(k)) !== cells(m.get(k))));
+  for (const k of changed) {
+    const theirCells = cells(t.get(k));
+    if (theirCells !== cells(b.get(k)) && theirCells !== cells(m.get(k))) {
+      return { rows: [], conflict: k.replace(/#\d+$/, '') };
+    }
+  }
+  const rows: T[] = [];
+  t.forEach((row, k) => {
+    if (!changed.has(k)) rows.push(row);
+    else if (m.has(k)) rows.push(m.get(k)!);
+  });
+  m.forEach((row, k) => { if (changed.has(k) && !t.has(k)) rows.push(row); });
+  return { rows, conflict: null };
+};
+
+// The same conversions keyed by tab, so code that loops over every tab keeps each tab's row type
+type Tables<K extends SheetTabKey> = { [P in K]: TabRow<P>[] };
+
+export const readTab = <K extends SheetTabKey>(db: Tables<K>, key: K, values: CellValue[][]) => {
+  db[key] = valuesToRows(SHEET_TABS[key], values);
+};
+
+// Header row plus db[key] from row index `from` on
+export const tabValues = <K extends SheetTabKey>(db: Tables<K>, key: K, from: number = 0): CellValue[][] =>
+  rowsToValues(SHEET_TABS[key], db[key].slice(from));
+
+// mergeRows for one tab; on success the merged rows replace mine[key]. Returns the conflicting row key, if any.
+export const mergeTab = <K extends SheetTabKey>(key: K, base: Tables<K>, mine: Tables<K>, theirs: Tables<K>): string | null => {
+  const result = mergeRows(SHEET_TABS[key], base[key], mine[key], theirs[key]);
+  if (!result.conflict) mine[key] = result.rows;
+  return result.conflict;
+};
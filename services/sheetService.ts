@@ -0,0 +1,108 @@
+
+import { AuthSession, DashboardStats, ERPRawRow, ERPUploadComparison, HistoryFilter, HistoryRow, ImportBatch, ImportOptions, ImportProfile, ImportProfileInput, ImportResult, ImportTarget, NewUser, PurchaserRuleRow, ReplyImportLine, ReplyImportOptions, ReplyImportResult, RowBatchChanges, RowBatchTarget, SheetDatabase, TrackingFacets, TrackingPage, RoleDefinition, TrackingQuery, UserAccount, UserImportResult, UserImportRow, UserUpdate, WODetailInput } from '../types';
+import { INITIAL_DB } from './mockData';
+import { BaseSheetService } from './baseSheetService';
+import { GoogleSheetService } from './googleSheetService';
+import { OfflineSheetService } from './offlineSheetService';
+import { emptyDatabase } from './sheetSchema';
+
+export interface ISheetService {
+  login(username: string, password: string): Promise<AuthSession | null>;
+  resumeSession(token: string): Promise<AuthSession | null>;
+  logout(): Promise<void>;
+  onSessionExpired(listener: () => void): () => void;
+  // Fires when someone else (another tab or user) changed the tracking data; returns an unsubscribe function
+  subscribe(listener: () => void): () => void;
+  setPassword(username: string, newPassword: string): Promise<boolean>;
+  queryTracking(query: TrackingQuery): Promise<TrackingPage>;
+  getTrackingFacets(archived?: boolean): Promise<TrackingFacets>;
+  getDashboardStats(): Promise<DashboardStats>;
+  // expectedVersion: TrackingRow.version the edit was based on (stageVersion() for stage-level edits);
+  // a mismatch throws ConflictError instead of overwriting someone else's change
+  updateDeliveryDate(rowId: string, newDate: string, expectedVersion?: number): Promise<boolean>;
+  updatePurchaserRemark(rowId: string, remark: string, expectedVersion?: number): Promise<boolean>;
+  updateStageDate(workOrder: string, stage: string, field: 'oqcDate', newDate: string, expectedVersion?: number): Promise<boolean>;
+  updateStageReady(workOrder: string, stage: string, isReady: boolean, expectedVersion?: number): Promise<boolean>;
+  // All-or-nothing: one stale version or missing permission and no row is changed. Returns how many rows changed.
+  updateRows(targets: RowBatchTarget[], changes: RowBatchChanges): Promise<number>;
+  archiveModel(modelName: string, isArchived: boolean): Promise<boolean>; 
+  importWODetails(data: WODetailInput[], options?: ImportOptions): Promise<ImportResult>;
+  importShortages(data: Omit<ERPRawRow, 'id'>[], mode?: 'replace' | 'merge', options?: ImportOptions): Promise<ImportResult>;
+  listImportBatches(limit?: number): Promise<ImportBatch[]>;
+  rollbackImportBatch(batchId: string): Promise<boolean>;
+  listImportProfiles(target?: ImportTarget): Promise<ImportProfile[]>;
+  saveImportProfile(profile: ImportProfileInput): Promise<ImportProfile>;
+  deleteImportProfile(id: string): Promise<boolean>;
+  listPurchaserRules(): Promise<PurchaserRuleRow[]>;
+  savePurchaserRules(rules: PurchaserRuleRow[]): Promise<number>;
+  assignPurchaser(rowIds: string[], username: string): Promise<boolean>;
+  importReplies(lines: ReplyImportLine[], options?: ReplyImportOptions): Promise<ReplyImportResult>;
+  getHistory(filter: HistoryFilter): Promise<HistoryRow[]>;
+  getAllERP(): Promise<ERPRawRow[]>;
+  compareERPUploads(fromBatchId: string, toBatchId: string): Promise<ERPUploadComparison>;
+  getUsers(): Promise<UserAccount[]>;
+  addUser(user: NewUser, password: string): Promise<boolean>;
+  updateUser(username: string, changes: UserUpdate): Promise<boolean>;
+  deleteUser(username: string): Promise<boolean>;
+  importUsers(rows: UserImportRow[]): Promise<UserImportResult>;
+  listRoles(): Promise<RoleDefinition[]>;
+  saveRole(role: RoleDefinition): Promise<boolean>;
+  deleteRole(name: string): Promise<boolean>;
+}
+
+class MockSheetService extends BaseSheetService {
+  constructor() {
+    super();
+    const saved = localStorage.getItem('mock_sheet_db');
+    this.db = saved ? this.parse(saved) : INITIAL_DB;
+  }
+
+  // Older saved databases predate some tables
+  private parse(saved: string): SheetDatabase {
+    return { ...emptyDatabase(), ...JSON.parse(saved) };
+  }
+
+  protected async reload() {
+    const saved = localStorage.getItem('mock_sheet_db');
+    if (saved) {
+      this.db = this.parse(saved);
+    }
+  }
+
+  protected async save() {
+    localStorage.setItem('mock_sheet_db', JSON.stringify(this.db));
+  }
+
+  protected async pause(ms: number) {
+    await new Promise(r => setTimeout(r, ms));
+  }
+
+  // The storage event only fires in the *other* tabs, so our own writes don't echo back
+  private onStorage = (e: StorageEvent) => {
+    if (e.key === 'mock_sheet_db') this.notifyChange();
+  };
+
+  protected startWatching() {
+    window.addEventListener('storage', this.onStorage);
+  }
+
+  protected stopWatching() {
+    window.removeEventListener('storage', this.onStorage);
+  }
+}
+
+// Backend is chosen at build time: SHEET_BACKEND=google in .env.local switches to the Sheets API
+const createSheetService = (): ISheetService => {
+  if (process.env.SHEET_BACKEND === 'google') {
+    return new GoogleSheetService({
+      spreadsheetId: process.env.SHEET_ID || '',
+      apiBase: process.env.SHEETS_API_BASE || undefined,
+      accessToken: process.env.SHEETS_ACCESS_TOKEN || undefined,
+      clientId: process.env.GOOGLE_CLIENT_ID || undefined,
+    });
+  }
+  return new MockSheetService();
+};
+
+// Edits made while offline are queued by the wrapper and synced when the connection returns
+export const sheetService = new OfflineSheetService(createSheetService());
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { TrackingRow } from '../types';
+import { computeStatus, excelSerialToIsoDate, localIsoDate, toIsoDate } from './statusEngine';
+
+const line = (fields: Partial<TrackingRow>): TrackingRow => ({
+  id: 'row-1',
+  model: 'M1',
+  workOrder: 'WO-1',
+  partNumber: 'P-1',
+  partName: '',
+  specification: '',
+  stage: 'SMT',
+  vendor: 'V1',
+  supplier: 'S1',
+  shortageQty: 10,
+  productionDate: '',
+  oqcDate: '',
+  isMaterialReady: false,
+  purchaserReplyDate: '',
+  purchaserRemark: '',
+  status: 'Pending',
+  purchaserUsername: '',
+  isArchived: false,
+  version: 1,
+  updatedAt: '',
+  ...fields,
+});
+
+describe('excelSerialToIsoDate', () => {
+  it('converts Excel serial dates', () => {
+    expect(excelSerialToIsoDate(45357)).toBe('2024-03-06');
+    expect(excelSerialToIsoDate(' 45357 ')).toBe('2024-03-06');
+    expect(excelSerialToIsoDate(45357.75)).toBe('2024-03-06'); // Time of day is dropped
+  });
+
+  it('ignores values that are not serial dates', () => {
+    expect(excelSerialToIsoDate('')).toBe('');
+    expect(excelSerialToIsoDate(null)).toBe('');
+    expect(excelSerialToIsoDate(150)).toBe('');
+    expect(excelSerialToIsoDate('2024-03-06')).toBe('');
+  });
+});
+
+describe('toIsoDate', () => {
+  it('normalizes the formats found in the sheet', () => {
+    expect(toIsoDate('2024/3/6')).toBe('2024-03-06');
+    expect(toIsoDate('2024-03-06')).toBe('2024-03-06');
+    expect(toIsoDate('45357')).toBe('2024-03-06');
+    expect(toIsoDate('soon')).toBe('');
+  });
+});
+
+describe('localIsoDate', () => {
+  it('uses the local calendar day, not the UTC one', () => {
+    expect(localIsoDate(new Date(2024, 2, 7, 0, 30))).toBe('2024-03-07');
+    expect(localIsoDate(new Date(2024, 2, 6, 23, 30))).toBe('2024-03-06');
+  });
+});
+
+describe('computeStatus', () => {
+  // Just after local midnight, when the UTC day can still be the day before
+  const today = new Date(2024, 2, 7, 0, 30);
+
+  it('turns unanswered lines late within the lead days of the need date', () => {
+    expect(computeStatus(line({ productionDate: '2024-03-10' }), 3, today)).toBe('Late');
+    expect(computeStatus(line({ productionDate: '2024-03-11' }), 3, today)).toBe('Pending');
+    expect(computeStatus(line({ productionDate: '2024-03-07' }), 0, today)).toBe('Late');
+  });
+
+  it('compares replies with the need date, falling back to the OQC date', () => {
+    expect(computeStatus(line({ productionDate: '2024-03-10', purchaserReplyDate: '2024-03-09' }), 3, today)).toBe('Confirmed');
+    expect(computeStatus(line({ oqcDate: '2024-03-10', purchaserReplyDate: '2024-03-12' }), 3, today)).toBe('Late');
+    expect(computeStatus(line({ isMaterialReady: true, productionDate: '2024-03-01' }), 3, today)).toBe('Ready');
+  });
+});
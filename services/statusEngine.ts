@@ -0,0 +1,71 @@
+import { ReferenceRow, TrackingRow, TrackingStatus } from '../types';
+
+// Reference_Data setting: a shortage with no purchaser reply turns Late this many days before production
+export const LATE_LEAD_DAYS_TYPE = 'LateLeadDays';
+export const DEFAULT_LATE_LEAD_DAYS = 3;
+
+const DAY_MS = 86400 * 1000;
+// Days from Excel's day 0 (1899-12-30) to 1970-01-01
+const EXCEL_EPOCH_OFFSET = 25569;
+
+// Excel serial date (numbers above 20000, i.e. after 1954) as YYYY-MM-DD; '' for anything else
+export const excelSerialToIsoDate = (value: unknown): string => {
+  const n = typeof value === 'string' ? Number(value.trim()) : Number(value);
+  if (value === null || value === '' || isNaN(n) || n <= 20000) return '';
+  return new Date((n - EXCEL_EPOCH_OFFSET) * DAY_MS).toISOString().split('T')[0];
+};
+
+// The calendar day in the user's time zone, YYYY-MM-DD (toISOString() would give the UTC day)
+export const localIsoDate = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Accepts YYYY-MM-DD, YYYY/M/D and Excel serial numbers; returns YYYY-MM-DD or '' if unparseable
+export const toIsoDate = (value: string | undefined): string => {
+  if (!value) return '';
+  const clean = String(value).trim();
+  const serial = excelSerialToIsoDate(clean);
+  if (serial) return serial;
+  const m = clean.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (!m) return '';
+  return `${m[1]}-${m[2].padStart(2, '0')}-${m[3].padStart(2, '0')}`;
+};
+
+export const getLateLeadDays = (referenceData: ReferenceRow[]): number => {
+  const setting = referenceData.find(r => r.type === LATE_LEAD_DAYS_TYPE);
+  const days = setting ? Number(setting.value) : NaN;
+  return isNaN(days) || days < 0 ? DEFAULT_LATE_LEAD_DAYS : days;
+};
+
+// The date a shortage has to be covered by: production start, falling back to the stage's OQC date
+export const getNeedDate = (row: TrackingRow): string => toIsoDate(row.productionDate) || toIsoDate(row.oqcDate);
+
+export const computeStatus = (row: TrackingRow, leadDays: number = DEFAULT_LATE_LEAD_DAYS, today: Date = new Date()): TrackingStatus => {
+  if (row.isMaterialReady || row.shortageQty <= 0) return 'Ready';
+
+  const needDate = getNeedDate(row);
+  const replyDate = toIsoDate(row.purchaserReplyDate);
+
+  if (replyDate) {
+    // Material promised after the line needs it
+    return needDate && replyDate > needDate ? 'Late' : 'Confirmed';
+  }
+
+  if (needDate) {
+    const threshold = localIsoDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + leadDays));
+    if (needDate <= threshold) return 'Late';
+  }
+  return 'Pending';
+};
+
+// Recomputes status for every row in place; returns true if anything changed
+export const applyStatuses = (rows: TrackingRow[], leadDays: number, today: Date = new Date()): boolean => {
+  let changed = false;
+  rows.forEach(row => {
+    const next = computeStatus(row, leadDays, today);
+    if (row.status !== next) {
+      row.status = next;
+      changed = true;
+    }
+  });
+  return changed;
+};
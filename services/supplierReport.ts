@@ -0,0 +1,100 @@
+import * as XLSX from 'xlsx';
+import { ReplyImportLine, TrackingRow } from '../types';
+import { SheetData } from './importParser';
+import { applyTransform } from './importMapping';
+import { excelRowNumber } from './importValidation';
+import { getNeedDate, localIsoDate } from './statusEngine';
+
+// Per-supplier shortage lists sent out by purchasers. The supplier fills in the reply columns and
+// sends the file back; the row id and report time columns let it be imported back as replies.
+
+export const SUPPLIER_REPORT_COLUMNS = {
+  rowId: '列編號',
+  workOrder: '工單號碼',
+  partNumber: '料號',
+  partName: '品名',
+  specification: '規格',
+  qty: '欠料數量',
+  needDate: '需求生產日',
+  replyDate: '回覆交期',
+  remark: '備註',
+  generatedAt: '報表時間',
+};
+
+export interface SupplierShortages {
+  supplier: string;
+  rows: TrackingRow[];
+}
+
+// Lines still waiting for material, one group per supplier, earliest need date first
+export const groupOpenShortages = (rows: TrackingRow[]): SupplierShortages[] => {
+  const groups = new Map<string, TrackingRow[]>();
+  rows
+    .filter(r => r.shortageQty > 0 && !r.isMaterialReady && r.status !== 'Ready' && !r.isArchived)
+    .forEach(r => {
+      const supplier = r.supplier || '(未填供應商)';
+      groups.set(supplier, [...(groups.get(supplier) || []), r]);
+    });
+  const list: SupplierShortages[] = [];
+  groups.forEach((lines, supplier) => list.push({
+    supplier,
+    rows: lines.sort((a, b) => (getNeedDate(a) || '9999').localeCompare(getNeedDate(b) || '9999') || a.workOrder.localeCompare(b.workOrder)),
+  }));
+  return list.sort((a, b) => a.supplier.localeCompare(b.supplier));
+};
+
+// Characters Windows and Excel refuse in file / sheet names
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|[\]]/g, '_').trim() || 'supplier';
+
+export const supplierReportFileName = (supplier: string, date: Date = new Date()) =>
+  `欠料回覆_${safeName(supplier)}_${localIsoDate(date).replace(/-/g, '')}.xlsx`;
+
+export const buildSupplierReport = (group: SupplierShortages, generatedAt: string = new Date().toISOString()): XLSX.WorkBook => {
+  const c = SUPPLIER_REPORT_COLUMNS;
+  const data = group.rows.map(r => ({
+    [c.rowId]: r.id,
+    [c.workOrder]: r.workOrder,
+    [c.partNumber]: r.partNumber,
+    [c.partName]: r.partName,
+    [c.specification]: r.specification,
+    [c.qty]: r.shortageQty,
+    [c.needDate]: getNeedDate(r),
+    [c.replyDate]: '',
+    [c.remark]: '',
+    [c.generatedAt]: generatedAt,
+  }));
+  const ws = XLSX.utils.json_to_sheet(data, { header: Object.values(c) });
+  ws['!cols'] = [{ wch: 14 }, { wch: 14 }, { wch: 18 }, { wch: 20 }, { wch: 24 }, { wch: 10 }, { wch: 12 }, { wch: 12 }, { wch: 30 }, { wch: 24 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, safeName(group.supplier).substring(0, 31));
+  return wb;
+};
+
+export const isSupplierReport = (sheet: SheetData) =>
+  sheet.headers.includes(SUPPLIER_REPORT_COLUMNS.rowId) && sheet.headers.includes(SUPPLIER_REPORT_COLUMNS.replyDate);
+
+export interface ParsedSupplierReport {
+  lines: ReplyImportLine[];
+  rejected: { rowNumber: number; reason: string }[];
+  generatedAt: string; // '' if the column was removed
+}
+
+// Rows the supplier left blank are ignored; unreadable dates are reported instead of guessed
+export const parseSupplierReport = (sheet: SheetData): ParsedSupplierReport => {
+  const c = SUPPLIER_REPORT_COLUMNS;
+  const text = (row: Record<string, unknown>, header: string) => String(row[header] ?? '').trim();
+  const result: ParsedSupplierReport = { lines: [], rejected: [], generatedAt: '' };
+  sheet.rows.forEach((row, i) => {
+    const rowNumber = excelRowNumber(row, i);
+    const rawDate = text(row, c.replyDate);
+    const remark = text(row, c.remark);
+    if (!result.generatedAt) result.generatedAt = text(row, c.generatedAt);
+    if (!rawDate && !remark) return;
+    const rowId = text(row, c.rowId);
+    if (!rowId) { result.rejected.push({ rowNumber, reason: `缺少${c.rowId}` }); return; }
+    const replyDate = rawDate ? String(applyTransform(rawDate, 'date')) : '';
+    if (rawDate && !replyDate) { result.rejected.push({ rowNumber, reason: `無法辨識的日期「${rawDate}」` }); return; }
+    result.lines.push({ rowNumber, rowId, replyDate, remark: remark || undefined });
+  });
+  return result;
+};
@@ -0,0 +1,102 @@
+import { TrackingRow } from '../types';
+import { getNeedDate, localIsoDate, toIsoDate } from './statusEngine';
+import { stageVersion } from './trackingQuery';
+
+// Lays tracking rows out on a day axis for the timeline view: one lane per work order,
+// one bar per stage running from production start to the stage's OQC date.
+
+export const TIMELINE_STAGES = ['SMT', 'Assembly', 'Packing'];
+
+const DAY_MS = 86400 * 1000;
+
+export interface TimelineReply {
+  rowId: string;
+  partNumber: string;
+  supplier: string;
+  date: string;
+  needDate: string;
+  isLate: boolean; // Promised after the line needs it
+}
+
+export interface TimelineStage {
+  stage: string;
+  productionDate: string;
+  oqcDate: string;
+  start: string; // Bar extent; '' when the stage has no dates yet
+  end: string;
+  version: number; // stageVersion() of the stage rows, for the OQC drag
+  replies: TimelineReply[];
+  lateCount: number;
+}
+
+export interface TimelineLane {
+  workOrder: string;
+  model: string;
+  vendor: string;
+  stages: TimelineStage[];
+  lateCount: number;
+}
+
+export interface Timeline {
+  lanes: TimelineLane[];
+  start: string; // First and last day on the axis, YYYY-MM-DD
+  end: string;
+}
+
+export const addDays = (iso: string, days: number): string =>
+  new Date(Date.parse(iso) + days * DAY_MS).toISOString().split('T')[0];
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const earliest = (dates: string[]) => dates.filter(Boolean).sort()[0] || '';
+
+const buildStage = (stage: string, rows: TrackingRow[]): TimelineStage => {
+  const productionDate = earliest(rows.map(r => toIsoDate(r.productionDate)));
+  const oqcDate = earliest(rows.map(r => toIsoDate(r.oqcDate)));
+  const start = productionDate || oqcDate;
+  const end = oqcDate > start ? oqcDate : start;
+  const replies = rows
+    .filter(r => r.shortageQty > 0 && !r.isMaterialReady && toIsoDate(r.purchaserReplyDate))
+    .map(r => {
+      const date = toIsoDate(r.purchaserReplyDate);
+      const needDate = getNeedDate(r);
+      return { rowId: r.id, partNumber: r.partNumber, supplier: r.supplier, date, needDate, isLate: !!needDate && date > needDate };
+    });
+  return { stage, productionDate, oqcDate, start, end, version: stageVersion(rows), replies, lateCount: replies.filter(r => r.isLate).length };
+};
+
+// padDays: empty days kept on both sides of the axis so end markers aren't glued to the edge
+export const buildTimeline = (rows: TrackingRow[], padDays: number = 3, today: Date = new Date()): Timeline => {
+  const byWorkOrder = new Map<string, TrackingRow[]>();
+  rows.forEach(r => {
+    const list = byWorkOrder.get(r.workOrder);
+    if (list) list.push(r);
+    else byWorkOrder.set(r.workOrder, [r]);
+  });
+
+  const lanes: TimelineLane[] = [];
+  byWorkOrder.forEach((woRows, workOrder) => {
+    const stages = TIMELINE_STAGES
+      .map(stage => woRows.filter(r => r.stage === stage))
+      .filter(stageRows => stageRows.length > 0)
+      .map(stageRows => buildStage(stageRows[0].stage, stageRows));
+    lanes.push({
+      workOrder,
+      model: woRows[0].model,
+      vendor: woRows[0].vendor,
+      stages,
+      lateCount: stages.reduce((sum, s) => sum + s.lateCount, 0),
+    });
+  });
+
+  // Scheduled work orders first, in date order; unscheduled ones at the bottom
+  const laneStart = (lane: TimelineLane) => earliest(lane.stages.map(s => s.start)) || '9999-12-31';
+  lanes.sort((a, b) => laneStart(a).localeCompare(laneStart(b)) || a.workOrder.localeCompare(b.workOrder));
+
+  const dates = lanes.flatMap(l => l.stages.flatMap(s => [s.start, s.end, ...s.replies.map(r => r.date)])).filter(Boolean).sort();
+  const todayIso = localIsoDate(today);
+  const first = dates[0] || todayIso;
+  const last = dates[dates.length - 1] || addDays(todayIso, 14);
+  return { lanes, start: addDays(first, -padDays), end: addDays(last, padDays) };
+};
@@ -0,0 +1,100 @@
+import { TrackingFacets, TrackingPage, TrackingQuery, TrackingRow, TrackingSortField } from '../types';
+
+export const DEFAULT_PAGE_SIZE = 500;
+export const MAX_PAGE_SIZE = 5000;
+
+type SortKey = (string | number)[];
+
+const STAGE_ORDER: Record<string, number> = { SMT: 0, Assembly: 1, Packing: 2 };
+
+const matchesFilter = (row: TrackingRow, query: TrackingQuery): boolean => {
+  const f = query.filter || {};
+  if (f.archived !== undefined && row.isArchived !== f.archived) return false;
+  if (f.model && row.model !== f.model) return false;
+  if (f.vendor && row.vendor !== f.vendor) return false;
+  if (f.supplier && row.supplier !== f.supplier) return false;
+  if (f.status && f.status.length > 0 && !f.status.includes(row.status)) return false;
+  if (f.purchaser && row.purchaserUsername.toLowerCase() !== f.purchaser.toLowerCase()) return false;
+  if (f.unanswered && (row.shortageQty <= 0 || row.purchaserReplyDate || row.isMaterialReady)) return false;
+  if (f.oqcMonthFrom || f.oqcMonthTo) {
+    const month = (row.oqcDate || '').substring(0, 7);
+    if (!month) return false;
+    if (f.oqcMonthFrom && month < f.oqcMonthFrom) return false;
+    if (f.oqcMonthTo && month > f.oqcMonthTo) return false;
+  }
+  if (f.text) {
+    const term = f.text.trim().toLowerCase();
+    if (term && !(row.workOrder.toLowerCase().includes(term) ||
+                  row.partNumber.toLowerCase().includes(term) ||
+                  row.model.toLowerCase().includes(term))) return false;
+  }
+  return true;
+};
+
+// Primary sort value followed by tie-breakers, so every row has a unique, stable position
+const sortKey = (row: TrackingRow, field: TrackingSortField): SortKey => {
+  const primary = field === 'shortageQty' ? row.shortageQty
+    : field === 'stage' ? STAGE_ORDER[row.stage] ?? 9
+    : String(row[field] ?? '');
+  return [primary, row.model, row.workOrder, STAGE_ORDER[row.stage] ?? 9, row.id];
+};
+
+const compareKeys = (a: SortKey, b: SortKey): number => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return -1;
+    if (a[i] > b[i]) return 1;
+  }
+  return 0;
+};
+
+const encodeCursor = (key: SortKey) => btoa(encodeURIComponent(JSON.stringify(key)));
+
+const decodeCursor = (cursor: string): SortKey | null => {
+  try {
+    const key = JSON.parse(decodeURIComponent(atob(cursor)));
+    return Array.isArray(key) ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+export const runTrackingQuery = (rows: TrackingRow[], query: TrackingQuery = {}): TrackingPage => {
+  const field = query.sort?.field || 'model';
+  const dir = query.sort?.direction === 'desc' ? -1 : 1;
+  const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const matched = rows
+    .filter(r => matchesFilter(r, query))
+    .map(r => ({ row: r, key: sortKey(r, field) }))
+    .sort((a, b) => dir * compareKeys(a.key, b.key));
+
+  let start = 0;
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  if (after) {
+    // Keyset pagination: resume after the last row we handed out, even if rows were added/removed since
+    start = matched.findIndex(m => dir * compareKeys(m.key, after) > 0);
+    if (start < 0) start = matched.length;
+  }
+
+  const page = matched.slice(start, start + limit);
+  const hasMore = start + limit < matched.length;
+  return {
+    rows: page.map(m => m.row),
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1].key) : null,
+    total: matched.length,
+  };
+};
+
+// Stage-level edits (OQC date, material ready) touch every row of the stage, so they are checked against the newest one
+export const stageVersion = (rows: TrackingRow[]) => rows.reduce((max, r) => Math.max(max, r.version || 0), 0);
+
+export const buildTrackingFacets = (rows: TrackingRow[], archived?: boolean): TrackingFacets => {
+  const scoped = archived === undefined ? rows : rows.filter(r => r.isArchived === archived);
+  const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort();
+  return {
+    vendors: distinct(scoped.map(r => r.vendor)),
+    suppliers: distinct(scoped.map(r => r.supplier)),
+    models: distinct(scoped.map(r => r.model)),
+    oqcMonths: distinct(scoped.map(r => r.oqcDate && r.oqcDate.length >= 7 ? r.oqcDate.substring(0, 7) : '')),
+  };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { tableToSheet } from './importParser';
+import { hasUserColumns, parseUserRows } from './userImport';
+
+describe('parseUserRows', () => {
+  it('reads the columns by any of their names', () => {
+    const sheet = tableToSheet('人員', [
+      ['Username', 'Name', 'E-mail', 'Roles', 'Password', 'Status'],
+      [' amy ', 'Amy', 'amy@example.com', 'Purchaser, Scheduler', 'pw', 'Active'],
+    ]);
+    expect(hasUserColumns(sheet)).toBe(true);
+    expect(parseUserRows(sheet)).toEqual([
+      { rowNumber: 2, username: 'amy', name: 'Amy', email: 'amy@example.com', roles: ['Purchaser', 'Scheduler'], password: 'pw', active: true },
+    ]);
+  });
+
+  it('splits roles on Chinese separators and reads the inactive spellings', () => {
+    const sheet = tableToSheet('人員', [
+      ['帳號', '角色', '狀態'],
+      ['a', 'Purchaser、Business', '停用'],
+      ['b', 'Purchaser，Business', 'No'],
+      ['c', 'Admin', '0'],
+    ]);
+    expect(parseUserRows(sheet).map(r => [r.roles, r.active])).toEqual([
+      [['Purchaser', 'Business'], false],
+      [['Purchaser', 'Business'], false],
+      [['Admin'], false],
+    ]);
+  });
+
+  it('leaves blank cells unset so they keep the current value', () => {
+    const sheet = tableToSheet('人員', [['帳號', '名稱', '角色', '密碼', '狀態'], ['amy']]);
+    expect(parseUserRows(sheet)).toEqual([
+      { rowNumber: 2, username: 'amy', name: undefined, email: undefined, roles: undefined, password: undefined, active: undefined },
+    ]);
+  });
+
+  it('keeps the Excel row numbers and drops rows with only a password or status', () => {
+    const sheet = tableToSheet('人員', [['帳號', '密碼', '狀態'], ['a', 'pw'], [], ['', 'pw', '停用'], ['b']]);
+    expect(parseUserRows(sheet).map(r => [r.rowNumber, r.username])).toEqual([[2, 'a'], [5, 'b']]);
+  });
+
+  it('does not take a sheet without a username column for an account list', () => {
+    expect(hasUserColumns(tableToSheet('欠料', [['工單號碼', '料號'], ['WO-1', 'P-1']]))).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { UserImportRow } from '../types';
+import { SheetData } from './importParser';
+import { findHeader } from './importMapping';
+import { excelRowNumber } from './importValidation';
+
+// Reads an account list (one row per user) for UserManagementView's bulk import.
+// Only the username column is required; blank cells leave the existing value alone.
+
+const USER_COLUMNS = {
+  username: ['帳號', 'Username', 'Account', 'User'],
+  name: ['名稱', '姓名', '顯示名稱', 'Name', 'Display Name'],
+  email: ['Email', 'E-mail', '電子郵件', '信箱'],
+  roles: ['角色', 'Roles', 'Role'],
+  password: ['密碼', '初始密碼', 'Password'],
+  active: ['狀態', '啟用', 'Active', 'Status'],
+};
+
+const INACTIVE_VALUES = ['停用', 'disabled', 'inactive', 'false', 'no', 'n', '0', '否'];
+
+const cell = (row: Record<string, unknown>, header: string) =>
+  header && row[header] !== undefined && row[header] !== null ? String(row[header]).trim() : '';
+
+export const hasUserColumns = (sheet: SheetData) => !!findHeader(sheet.headers, USER_COLUMNS.username);
+
+export const parseUserRows = (sheet: SheetData): UserImportRow[] => {
+  const headers = Object.fromEntries(
+    Object.entries(USER_COLUMNS).map(([key, aliases]) => [key, findHeader(sheet.headers, aliases)]),
+  ) as Record<keyof typeof USER_COLUMNS, string>;
+  return sheet.rows
+    .map((row, i) => {
+      const roles = cell(row, headers.roles);
+      const active = cell(row, headers.active);
+      return {
+        rowNumber: excelRowNumber(row, i),
+        username: cell(row, headers.username),
+        name: cell(row, headers.name) || undefined,
+        email: cell(row, headers.email) || undefined,
+        roles: roles ? roles.split(/[,，、;；]/).map(r => r.trim()).filter(Boolean) : undefined,
+        password: cell(row, headers.password) || undefined,
+        active: active ? !INACTIVE_VALUES.includes(active.toLowerCase()) : undefined,
+      };
+    })
+    .filter(r => r.username || r.name || r.email || r.roles);
+};
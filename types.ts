@@ -1,4 +1,5 @@
 
+// Built-in roles seeded into the Roles tab; admins can add more
 export enum UserRole {
   ADMIN = 'Admin',
   SCHEDULER = 'Scheduler',
@@ -6,17 +7,73 @@ export enum UserRole {
   BUSINESS = 'Business'
 }
 
+export type Permission =
+  | 'editReplyDate' // Purchaser reply: reply date and remark
+  | 'editOqcDate'
+  | 'toggleReady'
+  | 'archive'
+  | 'import' // Imports, rollbacks and import profiles
+  | 'assignPurchaser' // Supplier rules and per-line reassignment
+  | 'manageUsers'; // Accounts and roles
+
 export interface User {
   username: string;
   name: string;
-  role: UserRole;
+  roles: string[];
+  permissions: Permission[]; // Union over all roles, as of sign-in
   avatar?: string;
 }
 
+export interface AuthSession {
+  token: string; // Opaque bearer token, kept in sessionStorage by the client
+  user: User;
+  expiresAt: number; // epoch ms
+}
+
 // 1. Users_Roles
 export interface UserRoleRow {
   username: string;
-  role: UserRole;
+  role: string; // Role names, comma-separated when a user holds several (e.g. "Purchaser,Scheduler")
+  passwordHash?: string; // pbkdf2-sha256$iterations$salt$hash, never sent to the UI
+  displayName: string; // '' shows the username
+  email: string;
+  disabled: boolean; // Disabled accounts can't sign in; stored as "disabled" so rows from older sheets stay active
+}
+
+// Account as the UI sees it
+export interface UserAccount {
+  username: string;
+  name: string;
+  email: string;
+  active: boolean;
+  roles: string[];
+  permissions: Permission[];
+}
+
+export type NewUser = Pick<UserAccount, 'username' | 'roles'> & Partial<Pick<UserAccount, 'name' | 'email'>>;
+
+export interface UserUpdate {
+  roles?: string[];
+  name?: string;
+  email?: string;
+  active?: boolean;
+}
+
+// Bulk account import from Excel; existing usernames are updated, new ones need a password
+export interface UserImportRow {
+  rowNumber: number; // Row in the file, for error reporting
+  username: string;
+  name?: string;
+  email?: string;
+  roles?: string[];
+  password?: string;
+  active?: boolean;
+}
+
+export interface UserImportResult {
+  created: string[];
+  updated: string[];
+  rejected: { rowNumber: number; username: string; reason: string }[];
 }
 
 // 2. ERP_Raw_Data
@@ -30,10 +87,12 @@ export interface ERPRawRow {
   supplier: string;
   shortageQty: number;
   requiredDate: string; // Deprecated in logic, but kept for raw type
-  uploadBatch: string;
+  uploadBatch: string; // Import_Batches id of the upload this line came from
 }
 
 // 3. Tracking_Schedule
+export type TrackingStatus = 'Pending' | 'Confirmed' | 'Late' | 'Ready';
+
 export interface TrackingRow {
   id: string; 
   model: string;
@@ -56,10 +115,14 @@ export interface TrackingRow {
   purchaserReplyDate: string;
   purchaserRemark: string;
   
-  status: 'Pending' | 'Confirmed' | 'Late' | 'Ready';
+  status: TrackingStatus; // Derived by statusEngine on every import / edit / load
   purchaserUsername: string;
 
   isArchived: boolean;
+
+  // Optimistic concurrency: bumped on every change, updates carry the version they were based on
+  version: number;
+  updatedAt: string; // ISO 8601, '' for rows that were never edited
 }
 
 // 4. Reference_Data
@@ -68,9 +131,294 @@ export interface ReferenceRow {
   value: string;
 }
 
+// 5. Sessions
+export interface SessionRow {
+  tokenHash: string; // SHA-256 of the session token
+  username: string;
+  expiresAt: number; // epoch ms
+}
+
+// 6. Change_History (append-only)
+export interface HistoryRow {
+  id: string;
+  timestamp: string; // ISO 8601
+  actor: string; // username
+  action: 'update' | 'import' | 'archive' | 'rollback';
+  rowId: string; // '' for stage- / work-order-level entries
+  workOrder: string;
+  stage: string;
+  field: string; // TrackingRow field, or 'shortages' / 'woDetails' for imports
+  oldValue: string;
+  newValue: string;
+}
+
+export interface HistoryFilter {
+  rowId?: string;
+  workOrder?: string;
+  stage?: string;
+  limit?: number; // Newest first
+}
+
+// 7. Import_Batches - one row per committed import
+export type ImportKind = 'woDetails' | 'shortages:replace' | 'shortages:merge';
+
+export interface ImportBatchRow {
+  id: string;
+  timestamp: string; // ISO 8601
+  actor: string;
+  kind: ImportKind;
+  label: string; // Source file name
+  workOrders: string; // Comma-separated WOs the import touched
+  rowCount: number;
+  rolledBackAt: string; // '' while the batch is live
+  rolledBackBy: string;
+}
+
+export interface ImportBatch extends ImportBatchRow {
+  canRollback: boolean;
+}
+
+// 8. Import_Snapshots - tracking rows of the touched WOs as they were before the batch
+export interface ImportSnapshotRow {
+  batchId: string;
+  workOrder: string;
+  rowJson: string; // Serialized TrackingRow
+}
+
+// 9. Import_Profiles - saved column mappings for ERP exports whose headers differ from the templates
+export type ImportTarget = 'woDetails' | 'shortages' | 'replies';
+export type ImportTransform = 'text' | 'upper' | 'number' | 'date';
+
+export interface ImportFieldMapping {
+  field: string; // WODetailInput / ERPRawRow / ReplyImportLine key
+  source: string; // Column header in the file, '' to always use defaultValue
+  defaultValue: string; // Used when the column is missing or the cell is blank
+  transform: ImportTransform;
+}
+
+export interface ImportProfileRow {
+  id: string;
+  name: string;
+  target: ImportTarget;
+  mappingJson: string; // Serialized ImportFieldMapping[]
+  knownHeadersJson: string; // Serialized string[] - every header the file had when the profile was saved
+  updatedAt: string; // ISO 8601
+  updatedBy: string;
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  target: ImportTarget;
+  mappings: ImportFieldMapping[];
+  knownHeaders: string[]; // Extra columns listed here are ignored without asking again
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export type ImportProfileInput = Omit<ImportProfile, 'id' | 'updatedAt' | 'updatedBy'> & { id?: string };
+
+// 10. Purchaser_Rules - which purchaser owns new shortage lines of a supplier
+export interface PurchaserRuleRow {
+  supplier: string; // Matched case-insensitively against ERPRawRow.supplier
+  purchaserUsername: string;
+}
+
+// 11. Roles - named permission sets; Users_Roles.role refers to these by name
+export interface RoleRow {
+  name: string;
+  permissions: string; // Comma-separated Permission values
+}
+
+export interface RoleDefinition {
+  name: string;
+  permissions: Permission[];
+}
+
 export interface SheetDatabase {
   usersRoles: UserRoleRow[];
   erpRawData: ERPRawRow[];
   trackingSchedule: TrackingRow[];
   referenceData: ReferenceRow[];
+  sessions: SessionRow[];
+  history: HistoryRow[];
+  importBatches: ImportBatchRow[];
+  importSnapshots: ImportSnapshotRow[];
+  importProfiles: ImportProfileRow[];
+  purchaserRules: PurchaserRuleRow[];
+  roles: RoleRow[];
+}
+
+// --- Offline edit queue (kept in the browser until it can be sent) ---
+export type QueuedField = 'purchaserReplyDate' | 'purchaserRemark' | 'oqcDate' | 'isMaterialReady';
+
+export interface PendingMutation {
+  id: string;
+  queuedAt: string; // ISO 8601
+  username: string; // Only replayed for the user who made the edit
+  field: QueuedField;
+  rowId: string; // Row-level fields (reply date, remark)
+  workOrder: string; // Stage-level fields (OQC date, material ready); filled for row edits when known
+  stage: string;
+  value: string | boolean;
+  expectedVersion?: number; // Version the edit was based on
+  baseValue?: string | boolean; // Value before the edit, when known
+  conflictValue?: string | boolean; // Set when the backend had a newer value; the edit waits for the user to decide
+  conflictVersion?: number;
+  failedReason?: string; // Set when the backend rejected the edit for good; kept until the user dismisses it
+}
+
+// --- Tracking query API ---
+export type TrackingSortField = 'model' | 'workOrder' | 'stage' | 'supplier' | 'shortageQty' | 'productionDate' | 'oqcDate' | 'status';
+
+export interface TrackingFilter {
+  text?: string; // Matches work order, part number or model
+  status?: TrackingStatus[];
+  vendor?: string;
+  supplier?: string;
+  model?: string;
+  oqcMonthFrom?: string; // YYYY-MM, inclusive
+  oqcMonthTo?: string; // YYYY-MM, inclusive
+  archived?: boolean; // Omit for both active and archived rows
+  purchaser?: string; // Owning purchaser's username
+  unanswered?: boolean; // Only open shortage lines without a reply date
+}
+
+export interface TrackingQuery {
+  filter?: TrackingFilter;
+  sort?: { field: TrackingSortField; direction: 'asc' | 'desc' };
+  limit?: number;
+  cursor?: string | null; // nextCursor of the previous page
+}
+
+export interface TrackingPage {
+  rows: TrackingRow[];
+  nextCursor: string | null;
+  total: number; // Matching rows across all pages
+}
+
+export interface TrackingFacets {
+  vendors: string[];
+  suppliers: string[];
+  models: string[];
+  oqcMonths: string[];
+}
+
+// --- Bulk edits from the detail modal: the same values applied to several shortage lines in one write ---
+export interface RowBatchTarget {
+  rowId: string;
+  expectedVersion?: number; // TrackingRow.version the selection was made on
+}
+
+// Omitted fields are left as they are
+export interface RowBatchChanges {
+  purchaserReplyDate?: string;
+  purchaserRemark?: string;
+  purchaserUsername?: string; // '' = unassigned
+}
+
+// --- Purchaser replies returned on supplier reports or uploaded in bulk ---
+// Matched by rowId when given (our own supplier reports), otherwise by work order + part number
+export interface ReplyImportLine {
+  rowNumber: number; // Row in the file, for the report
+  rowId?: string;
+  workOrder?: string;
+  partNumber?: string;
+  replyDate: string; // YYYY-MM-DD; '' leaves the current reply
+  remark?: string; // undefined leaves the current remark
+}
+
+export interface ReplyImportOptions {
+  asOf?: string; // When the file's replies were current; anything entered in the app after that is kept
+  dryRun?: boolean; // Report what would change without saving
+}
+
+export interface ReplyImportResult {
+  updated: number;
+  unchanged: number;
+  unmatched: { rowNumber: number; reason: string }[];
+  skipped: { rowNumber: number; rowId: string; reason: string }[]; // A newer reply in the app was kept
+}
+
+// --- Dashboard (aggregated by dashboardStats.ts over active, non-archived shortage lines) ---
+export interface ShortageGroupStat {
+  name: string; // Supplier or vendor
+  open: number; // Shortage lines not ready yet
+  late: number;
+}
+
+export interface ReadinessWeek {
+  weekStart: string; // Monday, YYYY-MM-DD; lines are bucketed by OQC date
+  total: number;
+  ready: number;
+  confirmed: number; // Not ready but the purchaser has replied in time
+  late: number;
+}
+
+export interface DashboardStats {
+  openLines: number;
+  lateLines: number;
+  repliedLines: number; // Open lines with a purchaser reply date
+  replyRate: number; // repliedLines / openLines, 0..1; 0 when nothing is open
+  avgReplyLeadDays: number | null; // Mean days from promised date to need date; negative = promised too late
+  bySupplier: ShortageGroupStat[];
+  byVendor: ShortageGroupStat[];
+  weeklyReadiness: ReadinessWeek[];
+}
+
+// --- Import preview / result ---
+export interface WODetailInput {
+  workOrder: string;
+  model: string;
+  vendor: string;
+  stage?: string;
+  productPartNumber?: string;
+  productionDate?: string;
+}
+
+export interface ImportDiffLine {
+  workOrder: string;
+  partNumber: string;
+  partName: string;
+  oldQty?: number;
+  newQty?: number;
+  // Purchaser input on the existing line that the import would drop
+  lostReplyDate?: string;
+  lostRemark?: string;
+}
+
+export interface WODetailChange {
+  workOrder: string;
+  field: 'model' | 'vendor' | 'stage' | 'productPartNumber' | 'productionDate';
+  oldValue: string;
+  newValue: string;
+}
+
+export interface ImportDiff {
+  added: ImportDiffLine[];
+  removed: ImportDiffLine[];
+  qtyChanged: ImportDiffLine[];
+  purchaserDataLost: ImportDiffLine[];
+  // Lines whose purchaser reply was kept but whose shortage quantity changed, so the reply may no longer hold
+  repliesToRecheck: ImportDiffLine[];
+  newWorkOrders: string[];
+  woDetailChanges: WODetailChange[];
+}
+
+export interface ERPUploadComparison {
+  appeared: ImportDiffLine[]; // New shortage lines in the later upload
+  disappeared: ImportDiffLine[]; // Lines no longer reported short
+  qtyChanged: ImportDiffLine[];
+  unchanged: number;
+}
+
+export interface ImportOptions {
+  dryRun?: boolean; // Compute the diff without writing anything
+  label?: string; // Shown in the batch list, usually the file name
+}
+
+export interface ImportResult {
+  applied: boolean;
+  batchId: string | null; // null for dry runs and no-op imports
+  diff: ImportDiff;
 }
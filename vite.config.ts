@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SHEET_BACKEND': JSON.stringify(env.SHEET_BACKEND),
+        'process.env.SHEET_ID': JSON.stringify(env.SHEET_ID),
+        'process.env.SHEETS_API_BASE': JSON.stringify(env.SHEETS_API_BASE),
+        'process.env.SHEETS_ACCESS_TOKEN': JSON.stringify(env.SHEETS_ACCESS_TOKEN),
+        'process.env.GOOGLE_CLIENT_ID': JSON.stringify(env.GOOGLE_CLIENT_ID)
       },
       resolve: {
         alias: {